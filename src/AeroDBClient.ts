@@ -12,9 +12,27 @@ import { RealtimeClient } from './realtime/RealtimeClient';
 import { RealtimeChannel } from './realtime/RealtimeChannel';
 import { StorageClient } from './storage/StorageClient';
 import { FunctionsClient } from './functions/FunctionsClient';
+import { QueryCache } from './lib/cache';
+import type { CacheOptions } from './lib/cache';
 import { createFetch } from './lib/fetch';
 import { getStorageAdapter } from './lib/helpers';
 import type { StorageAdapter } from './lib/helpers';
+import type {
+    BatchResult,
+    FunctionName,
+    GenericDatabase,
+    GenericSchema,
+    KnownName,
+    RelationName,
+    RelationRow,
+    RelationShapeOf,
+    RpcOptions,
+    RpcRow,
+    SchemaOf,
+    TransactionOptions,
+    UntypedName,
+} from './database/types';
+import type { AeroDBResponse } from './types';
 
 /**
  * AeroDB client configuration options
@@ -51,9 +69,37 @@ export interface AeroDBClientOptions {
      * Custom storage adapter (default: localStorage in browser, memory in Node.js)
      */
     storage?: StorageAdapter;
+
+    /**
+     * Refuse update() and delete() calls without filters unless the query
+     * calls allRows() (default: true)
+     */
+    safeMutations?: boolean;
+
+    /**
+     * Cache read results (`true` for the defaults). Writes made through this
+     * client invalidate the tables they change. Off by default.
+     */
+    cache?: boolean | CacheOptions;
 }
 
-export class AeroDBClient {
+/**
+ * Pass a generated `Database` type to check table, view and function names
+ * and infer row, insert and update types:
+ *
+ * @example
+ * ```typescript
+ * const client = new AeroDBClient<Database>({ url, key });
+ * const { data } = await client.from('users').select('*').execute(); // Database['public']['Tables']['users']['Row'][]
+ * ```
+ */
+export class AeroDBClient<
+    Database = GenericDatabase,
+    SchemaName extends string & keyof Database = 'public' extends keyof Database
+        ? 'public'
+        : string & keyof Database,
+    Schema extends GenericSchema = SchemaOf<Database, SchemaName>,
+> {
     /**
      * Authentication client for user management
      */
@@ -74,7 +120,7 @@ export class AeroDBClient {
      */
     readonly functions: FunctionsClient;
 
-    private readonly db: PostgrestClient;
+    private readonly db: PostgrestClient<Schema>;
 
     constructor(options: AeroDBClientOptions) {
         // Validate required options
@@ -98,7 +144,17 @@ export class AeroDBClient {
 
         // Initialize clients
         this.auth = new AuthClient(baseUrl, aeroFetch, storage);
-        this.db = new PostgrestClient(baseUrl, aeroFetch, options.schema ?? 'public');
+        this.db = new PostgrestClient<Schema>(baseUrl, aeroFetch, options.schema ?? 'public', {
+            safeMutations: options.safeMutations,
+            cache: options.cache
+                ? new QueryCache(
+                    options.cache === true ? {} : options.cache,
+                    // Entries belong to the token aeroFetch sends
+                    () => storage.getItem('aerodb.auth.token')
+                )
+                : undefined,
+            channel: (name) => this.realtime.channel(name),
+        });
         this.storage = new StorageClient(baseUrl, aeroFetch);
         this.functions = new FunctionsClient(baseUrl, aeroFetch);
 
@@ -110,8 +166,75 @@ export class AeroDBClient {
     /**
      * Create a query builder for a database collection/table
      */
-    from<T = Record<string, unknown>>(collection: string): QueryBuilder<T> {
-        return this.db.from<T>(collection);
+    from<Name extends KnownName<RelationName<Schema>>>(
+        relation: Name
+    ): QueryBuilder<
+        RelationRow<Schema, Name>,
+        RelationRow<Schema, Name>[],
+        RelationShapeOf<Schema, Name>
+    >;
+    from<T = Record<string, unknown>>(
+        collection: UntypedName<RelationName<Schema>>
+    ): QueryBuilder<T>;
+    from(collection: string): QueryBuilder<any, any, any> {
+        return this.db.from(collection as UntypedName<RelationName<Schema>>);
+    }
+
+    /**
+     * Query another schema than the client's default
+     *
+     * With a typed `Database`, the schema name is checked and tables, views
+     * and functions are typed from that schema.
+     *
+     * @example
+     * ```typescript
+     * const { data } = await client.schema('audit').from('events').select('*').eq('actor_id', userId);
+     * ```
+     */
+    schema<Name extends string & keyof Database>(name: Name): PostgrestClient<SchemaOf<Database, Name>> {
+        return this.db.withSchema<SchemaOf<Database, Name>>(name);
+    }
+
+    /**
+     * Call a database function
+     */
+    rpc<Fn extends KnownName<FunctionName<Schema>>>(
+        fn: Fn,
+        args?: Schema['Functions'][Fn]['Args'],
+        options?: RpcOptions
+    ): QueryBuilder<
+        RpcRow<Schema['Functions'][Fn]['Returns']>,
+        Schema['Functions'][Fn]['Returns']
+    >;
+    rpc<Args extends Record<string, unknown> = Record<string, unknown>, Result = unknown>(
+        fn: UntypedName<FunctionName<Schema>>,
+        args?: Args,
+        options?: RpcOptions
+    ): QueryBuilder<RpcRow<Result>, Result>;
+    rpc(fn: string, args?: Record<string, unknown>, options?: RpcOptions): QueryBuilder<any, any, any> {
+        return this.db.rpc(fn as UntypedName<FunctionName<Schema>>, args, options);
+    }
+
+    /**
+     * Run several database operations atomically
+     *
+     * @see PostgrestClient.transaction
+     */
+    transaction(
+        run: (tx: PostgrestClient<Schema>) => unknown,
+        options?: TransactionOptions
+    ): Promise<AeroDBResponse<BatchResult[]>> {
+        return this.db.transaction(run, options);
+    }
+
+    /**
+     * Drop cached results that read `table`
+     *
+     * Only needed for changes made outside this client; its own writes
+     * invalidate the cache automatically.
+     */
+    invalidate(table: string): Promise<void> {
+        return this.db.invalidate(table);
     }
 
     /**
@@ -0,0 +1,367 @@
+/**
+ * FilterBuilder - Column filters and logic groups
+ *
+ * Shared by QueryBuilder and by the callback form of or() / and() / not(),
+ * so the same filter methods are available at the top level and inside groups.
+ */
+
+import { encodeFilterValue } from './encoding';
+import type {
+    ContainmentValue,
+    Filter,
+    FilterColumn,
+    FilterGroup,
+    FilterNode,
+    FilterOperator,
+    FilterValue,
+    LogicGroupOptions,
+    LogicOperator,
+    ReferencedTableOptions,
+    TextSearchOptions,
+} from './types';
+
+const TEXT_SEARCH_OPERATORS = {
+    plain: 'plfts',
+    phrase: 'phfts',
+    websearch: 'wfts',
+} as const;
+
+/**
+ * Callback used to build a nested filter group
+ */
+export type FilterGroupCallback<T> = (group: FilterBuilder<T>) => FilterBuilder<T>;
+
+export class FilterBuilder<T = Record<string, unknown>> {
+    protected filters: FilterNode[] = [];
+
+    /**
+     * Filter: equal
+     */
+    eq<K extends FilterColumn<T>>(field: K, value: FilterValue<T, K>, options?: ReferencedTableOptions): this;
+    eq(field: string, value: unknown, options: Required<ReferencedTableOptions>): this;
+    eq(field: string, value: unknown, options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'eq', value, options);
+    }
+
+    /**
+     * Filter: not equal
+     */
+    neq<K extends FilterColumn<T>>(field: K, value: FilterValue<T, K>, options?: ReferencedTableOptions): this;
+    neq(field: string, value: unknown, options: Required<ReferencedTableOptions>): this;
+    neq(field: string, value: unknown, options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'neq', value, options);
+    }
+
+    /**
+     * Filter: greater than
+     */
+    gt<K extends FilterColumn<T>>(field: K, value: FilterValue<T, K>, options?: ReferencedTableOptions): this;
+    gt(field: string, value: unknown, options: Required<ReferencedTableOptions>): this;
+    gt(field: string, value: unknown, options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'gt', value, options);
+    }
+
+    /**
+     * Filter: greater than or equal
+     */
+    gte<K extends FilterColumn<T>>(field: K, value: FilterValue<T, K>, options?: ReferencedTableOptions): this;
+    gte(field: string, value: unknown, options: Required<ReferencedTableOptions>): this;
+    gte(field: string, value: unknown, options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'gte', value, options);
+    }
+
+    /**
+     * Filter: less than
+     */
+    lt<K extends FilterColumn<T>>(field: K, value: FilterValue<T, K>, options?: ReferencedTableOptions): this;
+    lt(field: string, value: unknown, options: Required<ReferencedTableOptions>): this;
+    lt(field: string, value: unknown, options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'lt', value, options);
+    }
+
+    /**
+     * Filter: less than or equal
+     */
+    lte<K extends FilterColumn<T>>(field: K, value: FilterValue<T, K>, options?: ReferencedTableOptions): this;
+    lte(field: string, value: unknown, options: Required<ReferencedTableOptions>): this;
+    lte(field: string, value: unknown, options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'lte', value, options);
+    }
+
+    /**
+     * Filter: LIKE pattern match (case sensitive)
+     */
+    like<K extends FilterColumn<T>>(field: K, pattern: string, options?: ReferencedTableOptions): this;
+    like(field: string, pattern: string, options: Required<ReferencedTableOptions>): this;
+    like(field: string, pattern: string, options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'like', pattern, options);
+    }
+
+    /**
+     * Filter: ILIKE pattern match (case insensitive)
+     */
+    ilike<K extends FilterColumn<T>>(field: K, pattern: string, options?: ReferencedTableOptions): this;
+    ilike(field: string, pattern: string, options: Required<ReferencedTableOptions>): this;
+    ilike(field: string, pattern: string, options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'ilike', pattern, options);
+    }
+
+    /**
+     * Filter: IN array of values
+     */
+    in<K extends FilterColumn<T>>(field: K, values: FilterValue<T, K>[], options?: ReferencedTableOptions): this;
+    in(field: string, values: unknown[], options: Required<ReferencedTableOptions>): this;
+    in(field: string, values: unknown[], options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'in', values, options);
+    }
+
+    /**
+     * Filter: IS NULL or IS NOT NULL
+     */
+    is<K extends FilterColumn<T>>(field: K, value: null | boolean, options?: ReferencedTableOptions): this;
+    is(field: string, value: null | boolean, options: Required<ReferencedTableOptions>): this;
+    is(field: string, value: null | boolean, options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'is', value, options);
+    }
+
+    /**
+     * Filter: array, range or JSONB column contains every element of `value`
+     *
+     * @example
+     * ```typescript
+     * .contains('tags', ['billing', 'urgent'])        // tags=cs.{billing,urgent}
+     * .contains('metadata', { plan: 'pro' })          // metadata=cs.{"plan":"pro"}
+     * .contains('during', '[2024-01-01,2024-02-01)')  // during=cs.[2024-01-01,2024-02-01)
+     * ```
+     */
+    contains<K extends FilterColumn<T>>(field: K, value: ContainmentValue, options?: ReferencedTableOptions): this;
+    contains(field: string, value: ContainmentValue, options: Required<ReferencedTableOptions>): this;
+    contains(field: string, value: ContainmentValue, options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'cs', value, options);
+    }
+
+    /**
+     * Filter: every element of an array, range or JSONB column is contained in `value`
+     */
+    containedBy<K extends FilterColumn<T>>(field: K, value: ContainmentValue, options?: ReferencedTableOptions): this;
+    containedBy(field: string, value: ContainmentValue, options: Required<ReferencedTableOptions>): this;
+    containedBy(field: string, value: ContainmentValue, options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'cd', value, options);
+    }
+
+    /**
+     * Filter: array or range column shares an element with `value`
+     */
+    overlaps<K extends FilterColumn<T>>(field: K, value: string | readonly unknown[], options?: ReferencedTableOptions): this;
+    overlaps(field: string, value: string | readonly unknown[], options: Required<ReferencedTableOptions>): this;
+    overlaps(field: string, value: string | readonly unknown[], options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'ov', value, options);
+    }
+
+    /**
+     * Filter: range column is strictly left of `range` (`sl`)
+     */
+    rangeLt<K extends FilterColumn<T>>(field: K, range: string, options?: ReferencedTableOptions): this;
+    rangeLt(field: string, range: string, options: Required<ReferencedTableOptions>): this;
+    rangeLt(field: string, range: string, options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'sl', range, options);
+    }
+
+    /**
+     * Filter: range column is strictly right of `range` (`sr`)
+     */
+    rangeGt<K extends FilterColumn<T>>(field: K, range: string, options?: ReferencedTableOptions): this;
+    rangeGt(field: string, range: string, options: Required<ReferencedTableOptions>): this;
+    rangeGt(field: string, range: string, options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'sr', range, options);
+    }
+
+    /**
+     * Filter: range column does not extend left of `range` (`nxl`)
+     */
+    rangeGte<K extends FilterColumn<T>>(field: K, range: string, options?: ReferencedTableOptions): this;
+    rangeGte(field: string, range: string, options: Required<ReferencedTableOptions>): this;
+    rangeGte(field: string, range: string, options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'nxl', range, options);
+    }
+
+    /**
+     * Filter: range column does not extend right of `range` (`nxr`)
+     */
+    rangeLte<K extends FilterColumn<T>>(field: K, range: string, options?: ReferencedTableOptions): this;
+    rangeLte(field: string, range: string, options: Required<ReferencedTableOptions>): this;
+    rangeLte(field: string, range: string, options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'nxr', range, options);
+    }
+
+    /**
+     * Filter: range column is adjacent to `range` (`adj`)
+     */
+    rangeAdjacent<K extends FilterColumn<T>>(field: K, range: string, options?: ReferencedTableOptions): this;
+    rangeAdjacent(field: string, range: string, options: Required<ReferencedTableOptions>): this;
+    rangeAdjacent(field: string, range: string, options: ReferencedTableOptions = {}): this {
+        return this.addFilter(field, 'adj', range, options);
+    }
+
+    /**
+     * Filter: full-text search on a tsvector column
+     *
+     * @example
+     * ```typescript
+     * .textSearch('fts', "'help' & 'billing'")                   // fts=fts.'help' & 'billing'
+     * .textSearch('body', 'reset password', { type: 'websearch', config: 'english' })
+     * ```
+     */
+    textSearch<K extends FilterColumn<T>>(field: K, query: string, options?: TextSearchOptions): this;
+    textSearch(field: string, query: string, options: TextSearchOptions & Required<ReferencedTableOptions>): this;
+    textSearch(field: string, query: string, options: TextSearchOptions = {}): this {
+        const operator = options.type ? TEXT_SEARCH_OPERATORS[options.type] : 'fts';
+        this.filters.push({
+            field,
+            operator,
+            value: query,
+            config: options.config,
+            referencedTable: options.referencedTable,
+        });
+        return this;
+    }
+
+    /**
+     * Negate a filter, or a group of filters combined with AND
+     *
+     * @example
+     * ```typescript
+     * .not('status', 'eq', 'archived')           // status=not.eq.archived
+     * .not((q) => q.eq('role', 'guest').is('verified', false))
+     * ```
+     */
+    not<K extends FilterColumn<T>>(
+        field: K,
+        operator: FilterOperator,
+        value: unknown,
+        options?: ReferencedTableOptions
+    ): this;
+    not(field: string, operator: FilterOperator, value: unknown, options: Required<ReferencedTableOptions>): this;
+    not(build: FilterGroupCallback<T>, options?: ReferencedTableOptions): this;
+    not(
+        fieldOrBuild: string | FilterGroupCallback<T>,
+        operatorOrOptions?: FilterOperator | ReferencedTableOptions,
+        value?: unknown,
+        options: ReferencedTableOptions = {}
+    ): this {
+        if (typeof fieldOrBuild === 'function') {
+            const groupOptions = (operatorOrOptions ?? {}) as ReferencedTableOptions;
+            this.filters.push(this.buildGroup('and', fieldOrBuild, { ...groupOptions, negate: true }));
+            return this;
+        }
+        this.filters.push({
+            field: fieldOrBuild,
+            operator: operatorOrOptions as FilterOperator,
+            value,
+            negate: true,
+            referencedTable: options.referencedTable,
+        });
+        return this;
+    }
+
+    /**
+     * Match rows satisfying at least one of the given filters
+     *
+     * Accepts either a raw PostgREST logic string or a callback building the group.
+     *
+     * @example
+     * ```typescript
+     * .or('status.eq.open,assignee.is.null')
+     * .or('a.eq.1,and(b.gt.2,c.lt.3)')
+     * .or((q) => q.eq('status', 'open').is('assignee', null))
+     * .or('approved.eq.true,author_id.eq.7', { referencedTable: 'comments' })
+     * ```
+     */
+    or(filters: string | FilterGroupCallback<T>, options: LogicGroupOptions = {}): this {
+        this.filters.push(this.buildGroup('or', filters, options));
+        return this;
+    }
+
+    /**
+     * Match rows satisfying all of the given filters
+     *
+     * Top-level filters are already combined with AND; this is mainly useful
+     * for nesting inside or() or for negating a whole group.
+     */
+    and(filters: string | FilterGroupCallback<T>, options: LogicGroupOptions = {}): this {
+        this.filters.push(this.buildGroup('and', filters, options));
+        return this;
+    }
+
+    /**
+     * Add a column filter
+     */
+    protected addFilter(
+        field: string,
+        operator: FilterOperator,
+        value: unknown,
+        options: ReferencedTableOptions = {}
+    ): this {
+        this.filters.push({ field, operator, value, referencedTable: options.referencedTable });
+        return this;
+    }
+
+    /**
+     * Create a logic group from a raw string or a builder callback
+     */
+    private buildGroup(
+        logic: LogicOperator,
+        filters: string | FilterGroupCallback<T>,
+        options: LogicGroupOptions
+    ): FilterGroup {
+        const { negate, referencedTable } = options;
+        if (typeof filters === 'string') {
+            return { logic, filters, negate, referencedTable };
+        }
+        const group = filters(new FilterBuilder<T>());
+        return { logic, filters: group.filters, negate, referencedTable };
+    }
+
+    /**
+     * Serialize a filter for use as a query parameter value (`not.eq.1`)
+     */
+    protected serializeFilterValue(filter: Filter, nested = false): string {
+        const value = this.formatFilterValue(filter.operator, filter.value, nested);
+        const operator = filter.config ? `${filter.operator}(${filter.config})` : filter.operator;
+        return `${filter.negate ? 'not.' : ''}${operator}.${value}`;
+    }
+
+    /**
+     * Serialize a logic group's conditions (`(a.eq.1,b.eq.2)`)
+     */
+    protected serializeGroupConditions(group: FilterGroup): string {
+        if (typeof group.filters === 'string') {
+            return `(${group.filters})`;
+        }
+        return `(${group.filters.map((node) => this.serializeNestedFilter(node)).join(',')})`;
+    }
+
+    /**
+     * Serialize a filter node inside a logic group (`a.eq.1`, `not.or(...)`)
+     */
+    private serializeNestedFilter(node: FilterNode): string {
+        if (isFilterGroup(node)) {
+            return `${node.negate ? 'not.' : ''}${node.logic}${this.serializeGroupConditions(node)}`;
+        }
+        return `${node.field}.${this.serializeFilterValue(node, true)}`;
+    }
+
+    /**
+     * Format filter value based on operator
+     */
+    protected formatFilterValue(operator: FilterOperator, value: unknown, nested = false): string {
+        return encodeFilterValue(operator, value, nested);
+    }
+}
+
+/**
+ * Check whether a filter node is a logic group
+ */
+export function isFilterGroup(node: FilterNode): node is FilterGroup {
+    return 'logic' in node;
+}
@@ -1,27 +1,261 @@
 /**
  * PostgrestClient - Database operations wrapper
  *
- * Creates QueryBuilder instances for collections.
+ * Creates QueryBuilder instances for collections and runs transactions.
  */
 
-import type { AeroFetch } from '../lib/fetch';
+import type { AeroFetch, FetchOptions, FetchResult } from '../lib/fetch';
+import type { AeroDBResponse } from '../types';
 import { QueryBuilder } from './QueryBuilder';
+import type {
+    BatchOperation,
+    BatchResult,
+    FunctionName,
+    GenericSchema,
+    KnownName,
+    PostgrestClientOptions,
+    RelationName,
+    RelationRow,
+    RelationShapeOf,
+    RpcOptions,
+    RpcRow,
+    TransactionOptions,
+    UntypedName,
+} from './types';
 
-export class PostgrestClient {
+/**
+ * Database access for one schema.
+ *
+ * With a typed `Schema`, table, view and function names are checked and
+ * row, insert and update types are inferred from the name.
+ */
+export class PostgrestClient<Schema extends GenericSchema = GenericSchema> {
     private baseUrl: string;
     private fetch: AeroFetch;
     private schema: string;
+    private options: PostgrestClientOptions;
 
-    constructor(baseUrl: string, fetch: AeroFetch, schema: string = 'public') {
+    constructor(
+        baseUrl: string,
+        fetch: AeroFetch,
+        schema: string = 'public',
+        options: PostgrestClientOptions = {}
+    ) {
         this.baseUrl = baseUrl;
         this.fetch = fetch;
         this.schema = schema;
+        this.options = options;
+    }
+
+    /**
+     * Client for another schema of the same database, sharing this
+     * client's connection and options
+     *
+     * Its builders send the schema in `Accept-Profile` (reads) or
+     * `Content-Profile` (writes and function calls).
+     */
+    withSchema<S extends GenericSchema = GenericSchema>(schema: string): PostgrestClient<S> {
+        return new PostgrestClient<S>(this.baseUrl, this.fetch, schema, this.options);
     }
 
     /**
      * Create a query builder for a collection
      */
-    from<T = Record<string, unknown>>(collection: string): QueryBuilder<T> {
-        return new QueryBuilder<T>(collection, this.baseUrl, this.fetch, this.schema);
+    from<Name extends KnownName<RelationName<Schema>>>(
+        relation: Name
+    ): QueryBuilder<
+        RelationRow<Schema, Name>,
+        RelationRow<Schema, Name>[],
+        RelationShapeOf<Schema, Name>
+    >;
+    from<T = Record<string, unknown>>(
+        collection: UntypedName<RelationName<Schema>>
+    ): QueryBuilder<T>;
+    from(collection: string): QueryBuilder<any, any, any> {
+        return new QueryBuilder(collection, this.baseUrl, this.fetch, this.schema, {
+            safeMutations: this.options.safeMutations,
+            cache: this.options.cache,
+            channel: this.options.channel,
+            transaction: this.options.transaction,
+        });
+    }
+
+    /**
+     * Call a database function
+     *
+     * Functions returning a set can be filtered, ordered and paginated
+     * like a table before the call is executed.
+     *
+     * @example
+     * ```typescript
+     * const { data } = await client
+     *   .rpc<{ team_id: number }, { id: number; name: string }[]>('active_members', { team_id: 7 })
+     *   .order('name')
+     *   .limit(10)
+     *   .execute();
+     * ```
+     */
+    rpc<Fn extends KnownName<FunctionName<Schema>>>(
+        fn: Fn,
+        args?: Schema['Functions'][Fn]['Args'],
+        options?: RpcOptions
+    ): QueryBuilder<
+        RpcRow<Schema['Functions'][Fn]['Returns']>,
+        Schema['Functions'][Fn]['Returns']
+    >;
+    rpc<Args extends Record<string, unknown> = Record<string, unknown>, Result = unknown>(
+        fn: UntypedName<FunctionName<Schema>>,
+        args?: Args,
+        options?: RpcOptions
+    ): QueryBuilder<RpcRow<Result>, Result>;
+    rpc(
+        fn: string,
+        args: Record<string, unknown> = {},
+        options: RpcOptions = {}
+    ): QueryBuilder<any, any, any> {
+        return new QueryBuilder(
+            `rpc/${fn}`,
+            this.baseUrl,
+            this.fetch,
+            this.schema,
+            {
+                rpc: { ...options, args },
+                safeMutations: this.options.safeMutations,
+                transaction: this.options.transaction,
+            }
+        );
+    }
+
+    /**
+     * Run several operations atomically
+     *
+     * Writes and function calls made through `tx` are queued instead of
+     * sent: each resolves immediately with no data. When the callback
+     * returns, the queue is sent to the batch endpoint in one request and
+     * either all operations are committed or, if one fails, none are.
+     * `data` holds each operation's result in queue order. A callback that
+     * throws sends nothing.
+     *
+     * Reads (and update() with `concurrency`, which reads what it writes)
+     * would only get their result after the callback has returned, so they
+     * fail with an `UNSUPPORTED_IN_TRANSACTION` error instead.
+     *
+     * The batch endpoint is an AeroDB extension, not part of PostgREST, so
+     * this needs a server that provides it; its request and response format
+     * is described under "Batch endpoint" in docs/API_REFERENCE.md. Against
+     * a server without it, the result is a `BATCH_UNAVAILABLE` error.
+     *
+     * @example
+     * ```typescript
+     * const { data, error } = await client.transaction(async (tx) => {
+     *   await tx.from('orders').insert({ id: orderId, customer_id: 7 });
+     *   await tx.from('order_items').insert(items.map((item) => ({ ...item, order_id: orderId })));
+     * });
+     * ```
+     */
+    async transaction(
+        run: (tx: PostgrestClient<Schema>) => unknown,
+        options: TransactionOptions = {}
+    ): Promise<AeroDBResponse<BatchResult[]>> {
+        const operations: BatchOperation[] = [];
+        // Queued writes invalidate the cache once committed, not when queued
+        const tx = new PostgrestClient<Schema>(
+            this.baseUrl,
+            queueFetch(this.baseUrl, operations),
+            this.schema,
+            { ...this.options, cache: undefined, channel: undefined, transaction: true }
+        );
+
+        try {
+            await run(tx);
+        } catch (err) {
+            return {
+                data: null,
+                error: {
+                    message: err instanceof Error ? err.message : 'Transaction aborted',
+                    code: 'TRANSACTION_ABORTED',
+                },
+            };
+        }
+
+        if (operations.length === 0) {
+            return { data: [], error: null };
+        }
+
+        const headers: Record<string, string> = {
+            Prefer: `tx=${options.dryRun ? 'rollback' : 'commit'}`,
+        };
+        if (this.schema !== 'public') {
+            headers['Content-Profile'] = this.schema;
+        }
+
+        const result = await this.fetch<BatchResult[]>(`${this.baseUrl}/rest/v1/batch`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ operations }),
+        });
+
+        if (!result.error && !options.dryRun) {
+            for (const operation of operations) {
+                const table = operation.path.slice(1).split('?')[0];
+                if (operation.method !== 'GET' && !table.startsWith('rpc/')) {
+                    // Builders only send a profile header for schemas other than public
+                    const schema = operation.headers['Content-Profile'] ?? 'public';
+                    await this.options.cache?.invalidate(`${schema}.${table}`);
+                }
+            }
+        }
+
+        if (result.error?.status === 404) {
+            // Failed operations are never reported as 404 (see the batch contract)
+            return {
+                data: null,
+                error: {
+                    message: 'The server does not support transactions: POST /rest/v1/batch was not found',
+                    status: 404,
+                    code: 'BATCH_UNAVAILABLE',
+                    details: result.error,
+                },
+            };
+        }
+
+        return { data: result.data, error: result.error };
+    }
+
+    /**
+     * Drop cached results that read `table` (a table of this client's schema)
+     */
+    async invalidate(table: string): Promise<void> {
+        await this.options.cache?.invalidate(`${this.schema}.${table}`);
     }
 }
+
+/**
+ * Fetch that records requests instead of sending them, refusing reads
+ */
+function queueFetch(baseUrl: string, operations: BatchOperation[]): AeroFetch {
+    const prefix = `${baseUrl}/rest/v1`;
+
+    return async <T>(path: string, options: FetchOptions = {}): Promise<FetchResult<T>> => {
+        const method = options.method ?? 'GET';
+        if (method === 'GET' || method === 'HEAD') {
+            return {
+                data: null,
+                error: {
+                    message: 'Reads are not supported inside a transaction: run them before or after it',
+                    code: 'UNSUPPORTED_IN_TRANSACTION',
+                },
+                status: 0,
+                count: null,
+            };
+        }
+
+        operations.push({
+            method,
+            path: path.startsWith(prefix) ? path.slice(prefix.length) : path,
+            headers: options.headers ?? {},
+            ...(typeof options.body === 'string' ? { body: JSON.parse(options.body) } : {}),
+        });
+        return { data: null, error: null, status: 202, count: null };
+    };
+}
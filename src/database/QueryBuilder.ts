@@ -2,250 +2,930 @@
  * QueryBuilder - Fluent API for building database queries
  *
  * Implements PostgREST-style query syntax.
- * Query is not executed until execute() is called.
+ * Query is not executed until execute() is called or the builder is awaited.
  */
 
+import type { QueryCache } from '../lib/cache';
 import type { AeroFetch } from '../lib/fetch';
-import type { AeroDBResponse } from '../types';
-import type { Filter, FilterOperator, OrderBy } from './types';
+import { withRetry } from '../lib/retry';
+import { decodeText, parseJsonArray } from '../lib/stream';
+import type { RealtimeChannel } from '../realtime/RealtimeChannel';
+import type { RealtimePayload } from '../realtime/types';
+import type { AeroDBError, AeroDBResponse } from '../types';
+import { encodeScalar } from './encoding';
+import { FilterBuilder, isFilterGroup } from './FilterBuilder';
+import { applyChange, canEvaluateFilters, parseSelectedColumns } from './live';
+import type { LiveView } from './live';
+import type { AggregateFunction, SelectResult, ValidSelect, WithAggregate } from './select';
+import type {
+    AggregateOptions,
+    BulkChunkFailure,
+    BulkInsertOptions,
+    BulkUpsertOptions,
+    BulkWriteOptions,
+    BulkWriteResult,
+    ConcurrencyOptions,
+    ConflictError,
+    CountOption,
+    DefaultRelationShape,
+    DeleteOptions,
+    ExplainOptions,
+    Filter,
+    FilterNode,
+    GeoJsonFeatureCollection,
+    InsertOptions,
+    KeysetColumn,
+    LiveOptions,
+    LiveSubscription,
+    NumericColumn,
+    OrderBy,
+    OrderOptions,
+    PagesOptions,
+    PaginateOptions,
+    QueryBuilderOptions,
+    QueryPlan,
+    ReferencedTableOptions,
+    RelationShape,
+    RpcCall,
+    SelectOptions,
+    StreamOptions,
+    UpdateOptions,
+    UpsertOptions,
+} from './types';
 
-export class QueryBuilder<T = Record<string, unknown>> {
+/**
+ * How execute() shapes the returned rows
+ */
+type ResultMode = 'many' | 'single' | 'maybeSingle';
+
+/**
+ * Row type of single() / maybeSingle() results
+ */
+type SingleRow<R> = R extends (infer Row)[] ? Row : R;
+
+/**
+ * Item type of stream(): rows for JSON results, text chunks otherwise
+ */
+type StreamItem<R> = R extends (infer Row)[] ? Row : string;
+
+/**
+ * Keyset pagination state set by paginate()
+ */
+interface Keyset {
+    columns: { field: string; ascending: boolean }[];
+    pageSize: number;
+    after?: Record<string, unknown>;
+}
+
+const DEFAULT_PAGE_SIZE = 1000;
+
+const OBJECT_MEDIA_TYPE = 'application/vnd.pgrst.object+json';
+
+/**
+ * Condition a concurrency-checked update() sends with the PATCH
+ */
+type Precondition = { column: string; expected: unknown } | { etag: string };
+
+/**
+ * Name of an embedded resource in a select string: `posts(…)`,
+ * `author:users!author_id(…)`, `...profiles(…)`, but not `amount.sum()`
+ */
+const EMBEDDED_RESOURCE = /(?:(?<=\.\.\.)|(?<![\w.]))([A-Za-z_]\w*)(?:![\w]+)*\s*\(/g;
+
+const AGGREGATE_FUNCTIONS = new Set(['count', 'sum', 'avg', 'min', 'max']);
+
+const DEFAULT_CHUNK_SIZE = 500;
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Failed chunk attempt, thrown so withRetry() can decide whether to retry
+ */
+class ChunkWriteError extends Error {
+    readonly status?: number;
+
+    constructor(readonly error: AeroDBError) {
+        super(error.message);
+        this.name = 'ChunkWriteError';
+        if (error.status !== undefined) {
+            this.status = error.status;
+        }
+    }
+}
+
+/**
+ * Request that reads the query result
+ */
+interface ReadRequest {
+    url: string;
+    init: { method: string; headers: Record<string, string>; body?: string };
+}
+
+export class QueryBuilder<
+    T = Record<string, unknown>,
+    R = T[],
+    Rel extends RelationShape = DefaultRelationShape<T>,
+> extends FilterBuilder<T> implements PromiseLike<AeroDBResponse<R>> {
     private collection: string;
     private baseUrl: string;
     private fetch: AeroFetch;
     private schema: string;
+    private rpcCall?: RpcCall;
 
     private selectFields: string = '*';
-    private filters: Filter[] = [];
+    private aggregates: string[] = [];
     private orderByFields: OrderBy[] = [];
-    private limitValue?: number;
-    private offsetValue?: number;
-    private isSingle: boolean = false;
+    /** Limits and offsets keyed by referenced table ('' for the top level) */
+    private limits: Record<string, number> = {};
+    private offsets: Record<string, number> = {};
+    private resultMode: ResultMode = 'many';
+    private countOption?: CountOption;
+    private isHead: boolean = false;
+    private keyset?: Keyset;
+    private mediaType?: string;
+    private explainOptions?: ExplainOptions;
+    private safeMutations: boolean;
+    private cache?: QueryCache;
+    private channel?: (name: string) => RealtimeChannel;
+    private inTransaction: boolean;
+    private allowAllRows: boolean = false;
 
     constructor(
         collection: string,
         baseUrl: string,
         fetch: AeroFetch,
-        schema: string = 'public'
+        schema: string = 'public',
+        options: QueryBuilderOptions = {}
     ) {
+        super();
         this.collection = collection;
         this.baseUrl = baseUrl;
         this.fetch = fetch;
         this.schema = schema;
+        this.safeMutations = options.safeMutations ?? true;
+        this.cache = options.cache;
+        this.channel = options.channel;
+        this.inTransaction = options.transaction ?? false;
+
+        if (options.rpc) {
+            // Function calls only send `select` when one is asked for
+            this.rpcCall = options.rpc;
+            this.selectFields = '';
+            this.countOption = options.rpc.count;
+            this.isHead = options.rpc.head ?? false;
+        }
     }
 
     /**
      * Select specific columns
+     *
+     * The result type follows the column string: `select('id, name')`
+     * returns `{ id; name }` rows, and unknown columns fail to compile.
+     *
+     * Pass `count` to receive the total number of matching rows as `count`,
+     * and `head: true` to fetch only that count without any rows.
      */
-    select(columns: string = '*'): this {
-        this.selectFields = columns;
-        return this;
+    select<Query extends string = '*'>(
+        columns?: ValidSelect<T, Query, Rel>,
+        options: SelectOptions = {}
+    ): QueryBuilder<T, SelectResult<T, Query, Rel>[], Rel> {
+        this.selectFields = columns ?? '*';
+        this.countOption = options.count;
+        this.isHead = options.head ?? false;
+        return this as unknown as QueryBuilder<T, SelectResult<T, Query, Rel>[], Rel>;
     }
 
     /**
-     * Filter: equal
+     * Count rows, or the non-null values of a column
+     *
+     * Like the other aggregate helpers, this adds to the select list; the
+     * columns passed to select() become the implicit GROUP BY.
+     *
+     * @example
+     * ```typescript
+     * const { data } = await client.from('orders').select('status').count();
+     * // data: { status: string; count: number }[]
+     * ```
      */
-    eq<K extends keyof T>(field: K, value: T[K]): this {
-        this.filters.push({ field: String(field), operator: 'eq', value });
-        return this;
+    count<Alias extends string = 'count'>(
+        options?: AggregateOptions<Alias>
+    ): QueryBuilder<T, WithAggregate<T, R, Alias, number>, Rel>;
+    count<K extends keyof T & string, Alias extends string = 'count'>(
+        column: K,
+        options?: AggregateOptions<Alias>
+    ): QueryBuilder<T, WithAggregate<T, R, Alias, number>, Rel>;
+    count(columnOrOptions?: string | AggregateOptions, options: AggregateOptions = {}): QueryBuilder<any, any, any> {
+        if (typeof columnOrOptions === 'string') {
+            return this.addAggregate('count', columnOrOptions, options);
+        }
+        return this.addAggregate('count', undefined, columnOrOptions ?? {});
     }
 
     /**
-     * Filter: not equal
+     * Sum a numeric column (null when no rows match)
+     *
+     * @example
+     * ```typescript
+     * const { data } = await client.from('orders').select('category').sum('amount', { as: 'revenue' });
+     * // data: { category: string; revenue: number | null }[]
+     * ```
      */
-    neq<K extends keyof T>(field: K, value: T[K]): this {
-        this.filters.push({ field: String(field), operator: 'neq', value });
-        return this;
+    sum<K extends NumericColumn<T>, Alias extends string = 'sum'>(
+        column: K,
+        options: AggregateOptions<Alias> = {}
+    ): QueryBuilder<T, WithAggregate<T, R, Alias, number | null>, Rel> {
+        return this.addAggregate('sum', column, options);
     }
 
     /**
-     * Filter: greater than
+     * Average of a numeric column (null when no rows match)
      */
-    gt<K extends keyof T>(field: K, value: T[K]): this {
-        this.filters.push({ field: String(field), operator: 'gt', value });
-        return this;
+    avg<K extends NumericColumn<T>, Alias extends string = 'avg'>(
+        column: K,
+        options: AggregateOptions<Alias> = {}
+    ): QueryBuilder<T, WithAggregate<T, R, Alias, number | null>, Rel> {
+        return this.addAggregate('avg', column, options);
     }
 
     /**
-     * Filter: greater than or equal
+     * Smallest value of a column (null when no rows match)
      */
-    gte<K extends keyof T>(field: K, value: T[K]): this {
-        this.filters.push({ field: String(field), operator: 'gte', value });
-        return this;
+    min<K extends keyof T & string, Alias extends string = 'min'>(
+        column: K,
+        options: AggregateOptions<Alias> = {}
+    ): QueryBuilder<T, WithAggregate<T, R, Alias, T[K] | null>, Rel> {
+        return this.addAggregate('min', column, options);
     }
 
     /**
-     * Filter: less than
+     * Largest value of a column (null when no rows match)
      */
-    lt<K extends keyof T>(field: K, value: T[K]): this {
-        this.filters.push({ field: String(field), operator: 'lt', value });
-        return this;
+    max<K extends keyof T & string, Alias extends string = 'max'>(
+        column: K,
+        options: AggregateOptions<Alias> = {}
+    ): QueryBuilder<T, WithAggregate<T, R, Alias, T[K] | null>, Rel> {
+        return this.addAggregate('max', column, options);
     }
 
     /**
-     * Filter: less than or equal
+     * Add `[alias:][column.]fn()` to the select list
      */
-    lte<K extends keyof T>(field: K, value: T[K]): this {
-        this.filters.push({ field: String(field), operator: 'lte', value });
+    private addAggregate(
+        fn: AggregateFunction,
+        column: string | undefined,
+        options: AggregateOptions
+    ): QueryBuilder<any, any, any> {
+        const alias = options.as ? `${options.as}:` : '';
+        this.aggregates.push(`${alias}${column ? `${column}.` : ''}${fn}()`);
         return this;
     }
 
     /**
-     * Filter: LIKE pattern match (case sensitive)
+     * Allow update() or delete() to run without filters
+     *
+     * Unfiltered mutations change every row in the table, so they are
+     * refused unless this is called (or the client was created with
+     * `safeMutations: false`).
+     *
+     * @example
+     * ```typescript
+     * await client.from('sessions').allRows().delete();
+     * ```
      */
-    like<K extends keyof T>(field: K, pattern: string): this {
-        this.filters.push({ field: String(field), operator: 'like', value: pattern });
+    allRows(): this {
+        this.allowAllRows = true;
         return this;
     }
 
     /**
-     * Filter: ILIKE pattern match (case insensitive)
+     * Order results
+     *
+     * Pass `referencedTable` to order the rows of an embedded resource
+     * instead (`comments.order=created_at.desc`).
      */
-    ilike<K extends keyof T>(field: K, pattern: string): this {
-        this.filters.push({ field: String(field), operator: 'ilike', value: pattern });
+    order<K extends keyof T & string>(field: K, options?: OrderOptions): this;
+    order(field: string, options: OrderOptions & Required<ReferencedTableOptions>): this;
+    order(field: string, options: OrderOptions = {}): this {
+        this.orderByFields.push({
+            field,
+            ascending: options.ascending ?? true,
+            nullsFirst: options.nullsFirst,
+            referencedTable: options.referencedTable,
+        });
         return this;
     }
 
     /**
-     * Filter: IN array of values
+     * Limit number of results (or of an embedded resource's rows)
+     *
+     * On update() and delete() this caps how many rows are changed, and
+     * requires an order() to pick them.
      */
-    in<K extends keyof T>(field: K, values: T[K][]): this {
-        this.filters.push({ field: String(field), operator: 'in', value: values });
+    limit(count: number, options: ReferencedTableOptions = {}): this {
+        this.limits[options.referencedTable ?? ''] = count;
         return this;
     }
 
     /**
-     * Filter: IS NULL or IS NOT NULL
+     * Offset for pagination (or of an embedded resource's rows)
      */
-    is<K extends keyof T>(field: K, value: null | boolean): this {
-        this.filters.push({ field: String(field), operator: 'is', value });
+    offset(count: number, options: ReferencedTableOptions = {}): this {
+        this.offsets[options.referencedTable ?? ''] = count;
         return this;
     }
 
     /**
-     * Order results
+     * Return rows `from` to `to` (inclusive, zero-based)
      */
-    order<K extends keyof T>(
-        field: K,
-        options: { ascending?: boolean; nullsFirst?: boolean } = {}
-    ): this {
-        this.orderByFields.push({
-            field: String(field),
-            ascending: options.ascending ?? true,
-            nullsFirst: options.nullsFirst,
-        });
-        return this;
+    range(from: number, to: number, options: ReferencedTableOptions = {}): this {
+        return this.offset(from, options).limit(to - from + 1, options);
     }
 
     /**
-     * Limit number of results
+     * Paginate by keyset instead of offset
+     *
+     * Orders by the given columns and limits to `pageSize`; with `after`,
+     * only rows past that row are returned. Unlike offsets, keyset pages
+     * stay fast on large tables and do not skip or repeat rows when rows
+     * are inserted or deleted between pages. Iterate with pages().
+     *
+     * @example
+     * ```typescript
+     * const query = client.from('events').select('*').paginate({ orderBy: ['created_at', 'id'], pageSize: 500 });
+     * for await (const { data, error } of query.pages()) {
+     *   if (error) break;
+     *   await exportRows(data);
+     * }
+     * ```
      */
-    limit(count: number): this {
-        this.limitValue = count;
+    paginate(options: PaginateOptions<T>): this {
+        const orderBy = Array.isArray(options.orderBy) ? options.orderBy : [options.orderBy];
+        const columns = orderBy.map((column: KeysetColumn<T>) =>
+            typeof column === 'string'
+                ? { field: column, ascending: true }
+                : { field: column.column, ascending: column.ascending ?? true }
+        );
+
+        this.keyset = { columns, pageSize: options.pageSize, after: options.after };
+        this.orderByFields = [
+            ...this.orderByFields.filter((o) => o.referencedTable),
+            ...columns.map((c) => ({ field: c.field, ascending: c.ascending })),
+        ];
+        this.limits[''] = options.pageSize;
         return this;
     }
 
     /**
-     * Offset for pagination
+     * Iterate over the result page by page
+     *
+     * Uses the keyset set by paginate(), or offsets otherwise. With offsets,
+     * a limit() caps the total number of rows across all pages and an
+     * offset() is where the first page starts. Each page is a response with
+     * at least one row; iteration ends after the last page or after a page
+     * with an error.
      */
-    offset(count: number): this {
-        this.offsetValue = count;
-        return this;
+    async *pages(options: PagesOptions = {}): AsyncGenerator<AeroDBResponse<R>, void, undefined> {
+        const keyset = this.keyset;
+        const pageSize = keyset?.pageSize ?? options.pageSize ?? DEFAULT_PAGE_SIZE;
+        const start = { after: keyset?.after, limit: this.limits[''], offset: this.offsets[''] };
+        const end = !keyset && start.limit !== undefined ? (start.offset ?? 0) + start.limit : Infinity;
+
+        try {
+            for (let from = start.offset ?? 0; from < end; from += pageSize) {
+                const size = Math.min(pageSize, end - from);
+                if (!keyset) {
+                    this.range(from, from + size - 1);
+                }
+
+                const page = await this.execute();
+                const rows = Array.isArray(page.data) ? page.data : [];
+                if (page.error || rows.length > 0) {
+                    yield page;
+                }
+                if (page.error || rows.length < size) {
+                    return;
+                }
+
+                if (keyset) {
+                    const last = rows[rows.length - 1] as Record<string, unknown>;
+                    keyset.after = Object.fromEntries(keyset.columns.map((c) => [c.field, last[c.field]]));
+                }
+            }
+        } finally {
+            // Leave the builder as it was, so it can be iterated again
+            if (keyset) {
+                keyset.after = start.after;
+            }
+            this.restorePagination(start.limit, start.offset);
+        }
+    }
+
+    /**
+     * Return the result as CSV text
+     *
+     * Combine with stream() to receive large exports in chunks.
+     */
+    csv(): QueryBuilder<T, string, Rel> {
+        return this.returns<string>('text/csv');
     }
 
     /**
-     * Return only a single row
+     * Return the result as a GeoJSON FeatureCollection (PostGIS tables),
+     * with the selected columns as feature properties
      */
-    single(): this {
-        this.isSingle = true;
-        this.limitValue = 1;
+    geojson(): QueryBuilder<T, GeoJsonFeatureCollection<SingleRow<R>>, Rel> {
+        return this.returns<GeoJsonFeatureCollection<SingleRow<R>>>('application/geo+json');
+    }
+
+    /**
+     * Request the result in another media type via the Accept header
+     *
+     * JSON media types (`application/…+json`) are parsed; others are
+     * returned as text.
+     *
+     * @example
+     * ```typescript
+     * const { data: xml } = await client.rpc('sitemap').returns('text/xml');
+     * ```
+     */
+    returns<Result = string>(mediaType: string): QueryBuilder<T, Result, Rel> {
+        this.mediaType = mediaType;
+        return this as unknown as QueryBuilder<T, Result, Rel>;
+    }
+
+    /**
+     * Return the query plan instead of the result
+     *
+     * Uses EXPLAIN on the server (the `application/vnd.pgrst.plan` media
+     * type, which must be enabled with `db-plan-enabled`). With `analyze`
+     * the query is actually run, including function calls.
+     *
+     * @example
+     * ```typescript
+     * const { data: plans } = await client.from('orders').select('*').eq('status', 'open')
+     *     .explain({ analyze: true, format: 'json' });
+     * console.log(plans?.[0]['Execution Time']);
+     * ```
+     */
+    explain(options: ExplainOptions & { format: 'json' }): QueryBuilder<T, QueryPlan[], Rel>;
+    explain(options?: ExplainOptions): QueryBuilder<T, string, Rel>;
+    explain(options: ExplainOptions = {}): QueryBuilder<any, any, any> {
+        this.explainOptions = options;
         return this;
     }
 
     /**
-     * Build the query string for GET requests
+     * Return the matching row as an object instead of an array
+     *
+     * Responds with an error (code `PGRST116`) unless exactly one row matches.
      */
-    private buildQueryString(): string {
-        const params = new URLSearchParams();
+    single(): QueryBuilder<T, SingleRow<R>, Rel> {
+        this.resultMode = 'single';
+        return this as unknown as QueryBuilder<T, SingleRow<R>, Rel>;
+    }
 
+    /**
+     * Return the matching row as an object, or null when no row matches
+     *
+     * Responds with an error (code `PGRST116`) when more than one row matches.
+     */
+    maybeSingle(): QueryBuilder<T, SingleRow<R>, Rel> {
+        this.resultMode = 'maybeSingle';
+        return this as unknown as QueryBuilder<T, SingleRow<R>, Rel>;
+    }
+
+    /**
+     * Build the select list: the selected columns, followed by aggregates
+     * (grouped by those columns; `*` means no grouping)
+     */
+    private buildSelect(): string {
+        if (this.aggregates.length === 0) {
+            return this.selectFields;
+        }
+        const columns = this.selectFields && this.selectFields !== '*' ? [this.selectFields] : [];
+        return [...columns, ...this.aggregates].join(',');
+    }
+
+    /**
+     * Keyset predicate selecting rows past `after`:
+     * `or=(a.gt.1,and(a.eq.1,b.gt.2))` for columns a, b
+     */
+    private buildKeysetFilter(keyset: Keyset, after: Record<string, unknown>): FilterNode {
+        const terms = keyset.columns.map((column, i): FilterNode => {
+            const filters: Filter[] = keyset.columns
+                .slice(0, i)
+                .map((previous) => ({ field: previous.field, operator: 'eq', value: after[previous.field] }));
+            filters.push({ field: column.field, operator: column.ascending ? 'gt' : 'lt', value: after[column.field] });
+            return filters.length === 1 ? filters[0] : { logic: 'and', filters };
+        });
+        return terms.length === 1 ? terms[0] : { logic: 'or', filters: terms };
+    }
+
+    /**
+     * Put back the top-level limit and offset saved before paging
+     */
+    private restorePagination(limit: number | undefined, offset: number | undefined): void {
+        if (limit === undefined) {
+            delete this.limits[''];
+        } else {
+            this.limits[''] = limit;
+        }
+        if (offset === undefined) {
+            delete this.offsets[''];
+        } else {
+            this.offsets[''] = offset;
+        }
+    }
+
+    /**
+     * Build the query string for GET requests
+     */
+    private buildQueryString(params: URLSearchParams = new URLSearchParams()): string {
         // Select
-        if (this.selectFields) {
-            params.set('select', this.selectFields);
+        const select = this.buildSelect();
+        if (select) {
+            params.set('select', select);
         }
 
-        // Filters
-        for (const filter of this.filters) {
-            const value = this.formatFilterValue(filter.operator, filter.value);
-            params.set(filter.field, `${filter.operator}.${value}`);
+        // Filters (appended, so several filters on one column are all kept)
+        const filters = this.keyset?.after
+            ? [...this.filters, this.buildKeysetFilter(this.keyset, this.keyset.after)]
+            : this.filters;
+        for (const filter of filters) {
+            const prefix = filter.referencedTable ? `${filter.referencedTable}.` : '';
+            if (isFilterGroup(filter)) {
+                const key = `${prefix}${filter.negate ? 'not.' : ''}${filter.logic}`;
+                params.append(key, this.serializeGroupConditions(filter));
+            } else {
+                params.append(`${prefix}${filter.field}`, this.serializeFilterValue(filter));
+            }
         }
 
-        // Order
-        if (this.orderByFields.length > 0) {
-            const orderStr = this.orderByFields
-                .map((o) => {
-                    let str = `${o.field}.${o.ascending ? 'asc' : 'desc'}`;
-                    if (o.nullsFirst !== undefined) {
-                        str += `.${o.nullsFirst ? 'nullsfirst' : 'nullslast'}`;
-                    }
-                    return str;
-                })
-                .join(',');
-            params.set('order', orderStr);
+        // Order, one parameter per referenced table
+        const orders = new Map<string, string[]>();
+        for (const o of this.orderByFields) {
+            let str = `${o.field}.${o.ascending ? 'asc' : 'desc'}`;
+            if (o.nullsFirst !== undefined) {
+                str += `.${o.nullsFirst ? 'nullsfirst' : 'nullslast'}`;
+            }
+            const key = o.referencedTable ? `${o.referencedTable}.order` : 'order';
+            orders.set(key, [...(orders.get(key) ?? []), str]);
+        }
+        for (const [key, columns] of orders) {
+            params.set(key, columns.join(','));
         }
 
         // Pagination
-        if (this.limitValue !== undefined) {
-            params.set('limit', String(this.limitValue));
+        for (const [table, count] of Object.entries(this.limits)) {
+            params.set(table ? `${table}.limit` : 'limit', String(count));
         }
-        if (this.offsetValue !== undefined) {
-            params.set('offset', String(this.offsetValue));
+        for (const [table, count] of Object.entries(this.offsets)) {
+            params.set(table ? `${table}.offset` : 'offset', String(count));
         }
 
         return params.toString();
     }
 
     /**
-     * Format filter value based on operator
+     * URL and request options for reading the query (or calling the function)
      */
-    private formatFilterValue(operator: FilterOperator, value: unknown): string {
-        if (operator === 'in' && Array.isArray(value)) {
-            return `(${value.map(String).join(',')})`;
+    private buildRequest(): ReadRequest {
+        const method = this.isHead ? 'HEAD' : this.rpcCall && !this.rpcCall.get ? 'POST' : 'GET';
+
+        // Function arguments go in the body for POST, in the query string otherwise
+        const params = new URLSearchParams();
+        if (this.rpcCall && method !== 'POST') {
+            for (const [name, value] of Object.entries(this.rpcCall.args)) {
+                params.append(name, encodeScalar(value));
+            }
+        }
+
+        const queryString = this.buildQueryString(params);
+        const url = `${this.baseUrl}/rest/v1/${this.collection}${queryString ? `?${queryString}` : ''}`;
+
+        const headers: Record<string, string> = {};
+        if (this.schema !== 'public') {
+            headers[method === 'POST' ? 'Content-Profile' : 'Accept-Profile'] = this.schema;
         }
-        if (value === null) {
-            return 'null';
+        if (this.countOption) {
+            headers['Prefer'] = `count=${this.countOption}`;
         }
-        if (typeof value === 'boolean') {
-            return String(value);
+        if (this.mediaType) {
+            headers['Accept'] = this.mediaType;
         }
-        return String(value);
+
+        return {
+            url,
+            init: {
+                method,
+                headers,
+                ...(method === 'POST' ? { body: JSON.stringify(this.rpcCall!.args) } : {}),
+            },
+        };
     }
 
     /**
-     * Execute SELECT query
+     * Accept header for execute(): the requested format, the single-object
+     * type, or the plan of either when explaining
      */
-    async execute(): Promise<AeroDBResponse<T[]>> {
-        const queryString = this.buildQueryString();
-        const url = `${this.baseUrl}/rest/v1/${this.collection}?${queryString}`;
+    private buildAccept(): string | undefined {
+        const mediaType = this.mediaType ?? (this.resultMode === 'single' ? OBJECT_MEDIA_TYPE : undefined);
+        if (!this.explainOptions) {
+            return mediaType;
+        }
 
-        const headers: Record<string, string> = {};
-        if (this.schema !== 'public') {
-            headers['Accept-Profile'] = this.schema;
+        const { format = 'text', ...flags } = this.explainOptions;
+        const options = (['analyze', 'verbose', 'buffers'] as const).filter((flag) => flags[flag]);
+        return [
+            `application/vnd.pgrst.plan+${format}`,
+            `for="${mediaType ?? 'application/json'}"`,
+            ...(options.length > 0 ? [`options=${options.join('|')}`] : []),
+        ].join('; ');
+    }
+
+    /**
+     * Cache tag of a table in this builder's schema
+     */
+    private cacheTag(table: string): string {
+        return `${this.schema}.${table}`;
+    }
+
+    /**
+     * Tables a cached result depends on: the queried one, or the whole schema
+     * when it embeds resources. An embed may be named by a foreign key column
+     * or constraint (`author_id(…)`) rather than its table, which can't be
+     * told apart without the schema.
+     */
+    private cacheTags(): string[] {
+        const embeds = [...this.selectFields.matchAll(EMBEDDED_RESOURCE)]
+            .some((match) => !AGGREGATE_FUNCTIONS.has(match[1]));
+        return embeds ? [this.cacheTag(this.collection), this.cacheTag('*')] : [this.cacheTag(this.collection)];
+    }
+
+    /**
+     * Build the Prefer header value from its directives
+     */
+    private buildPreferHeader(directives: string[], count?: CountOption): string {
+        return [...directives, ...(count ? [`count=${count}`] : [])].join(',');
+    }
+
+    /**
+     * Execute SELECT query (or the function call for rpc() builders)
+     */
+    async execute(): Promise<AeroDBResponse<R>> {
+        const { url, init } = this.buildRequest();
+        const accept = this.buildAccept();
+        if (accept) {
+            init.headers['Accept'] = accept;
         }
 
-        const result = await this.fetch<T[]>(url, { method: 'GET', headers });
+        const send = async (): Promise<AeroDBResponse<R>> => {
+            const result = await this.fetch<R>(url, init);
+            return { data: result.data, error: result.error, count: result.count ?? null };
+        };
+        // Function calls and plans aren't tied to the tables that invalidate the cache
+        const result = this.cache && !this.rpcCall && !this.explainOptions
+            ? await this.cache.fetch(JSON.stringify([url, init]), this.cacheTags(), send)
+            : await send();
 
-        if (this.isSingle && result.data) {
-            // Return single item or null
-            const singleData = result.data[0] ?? null;
-            return {
-                data: singleData ? [singleData] : null,
-                error: result.error,
-            };
+        const unwrapRows = this.resultMode !== 'many' && !this.mediaType && !this.explainOptions;
+        if (unwrapRows && Array.isArray(result.data)) {
+            return this.toSingleResponse(result.data, result.count ?? null);
         }
 
+        return result;
+    }
+
+    /**
+     * Stream the result rows instead of buffering them
+     *
+     * Rows are parsed from the response body as they arrive, so memory use
+     * stays flat however many rows match. The next chunk is only read when
+     * the loop asks for another row, and aborting `signal` (or breaking out
+     * of the loop) cancels the download. Request errors are returned as
+     * `error`; a connection dropped mid-stream throws from the loop.
+     *
+     * @example
+     * ```typescript
+     * const { data: rows, error } = await client.from('events').select('*').stream({ signal });
+     * if (error) return;
+     * for await (const row of rows!) {
+     *   await writer.write(row);
+     * }
+     * ```
+     */
+    async stream(options: StreamOptions = {}): Promise<AeroDBResponse<AsyncIterable<StreamItem<R>>>> {
+        const { url, init } = this.buildRequest();
+        const result = await this.fetch<ReadableStream<Uint8Array>>(url, {
+            ...init,
+            signal: options.signal,
+            responseType: 'stream',
+        });
+
+        if (result.error || !result.data) {
+            return { data: null, error: result.error, count: result.count ?? null };
+        }
+
+        // Formats other than the default JSON array (csv(), returns()) arrive as text chunks
+        const items = this.mediaType
+            ? decodeText(result.data, options.signal)
+            : parseJsonArray(result.data, options.signal);
+
         return {
-            data: result.data,
-            error: result.error,
+            data: items as AsyncIterable<StreamItem<R>>,
+            error: null,
+            count: result.count ?? null,
+        };
+    }
+
+    /**
+     * Keep the query result up to date with realtime changes
+     *
+     * Runs the query, then listens to the table's channel and calls
+     * `callback` with the new result after every change. Changes are
+     * applied locally when the query allows it (filters with comparison,
+     * pattern, `in` and `is` operators, plain columns, and order and limit
+     * on those); otherwise, or when a row leaves a result cut off by its
+     * limit, the query runs again.
+     *
+     * @example
+     * ```typescript
+     * const live = client
+     *   .from('tasks')
+     *   .select('id, title, done')
+     *   .eq('list_id', listId)
+     *   .order('created_at')
+     *   .live(({ data, error }) => render(data, error));
+     *
+     * // later
+     * live.unsubscribe();
+     * ```
+     */
+    live(callback: (response: AeroDBResponse<R>) => void, options: LiveOptions = {}): LiveSubscription {
+        if (!this.channel) {
+            callback({
+                data: null,
+                error: { message: 'live() needs a client with realtime', code: 'REALTIME_UNAVAILABLE' },
+                count: null,
+            });
+            return { unsubscribe: () => undefined };
+        }
+
+        const view = this.buildLiveView(options);
+        const channel = this.channel(this.collection);
+        let active = true;
+        let rows: Record<string, unknown>[] | null = null;
+        let loading = false;
+        let stale = false;
+        let queued: RealtimePayload[] = [];
+
+        const emit = (response: AeroDBResponse<R>) => {
+            if (active) {
+                callback(response);
+            }
+        };
+
+        // Run the query again, once more if a change needs it meanwhile
+        const load = async () => {
+            if (loading) {
+                stale = true;
+                return;
+            }
+            loading = true;
+            let response: AeroDBResponse<R>;
+            do {
+                stale = false;
+                // A change event means any cached result is out of date
+                await this.cache?.invalidate(this.cacheTag(this.collection));
+                response = await this.execute();
+                rows = view && !response.error && Array.isArray(response.data) ? response.data : null;
+
+                // Changes that arrived while loading, which the result may or may not include
+                const pending = queued;
+                queued = [];
+                for (const payload of rows ? pending : []) {
+                    const next = applyChange(rows!, payload, view!);
+                    if (!next) {
+                        stale = true;
+                        break;
+                    }
+                    rows = next;
+                }
+            } while (stale && active);
+            loading = false;
+
+            emit(rows ? { ...response, data: rows as R } : response);
+        };
+
+        const onChange = (payload: RealtimePayload) => {
+            if (!active || payload.table !== this.collection || (payload.schema && payload.schema !== this.schema)) {
+                return;
+            }
+            if (loading) {
+                if (view) {
+                    queued.push(payload);
+                } else {
+                    stale = true;
+                }
+                return;
+            }
+            const next = view && rows && applyChange(rows, payload, view);
+            if (!next) {
+                void load();
+                return;
+            }
+            rows = next;
+            emit({ data: rows as R, error: null, count: null });
+        };
+
+        channel.on('*', onChange).subscribe();
+        void load();
+
+        return {
+            unsubscribe: () => {
+                if (!active) {
+                    return;
+                }
+                active = false;
+                channel.off('*', onChange);
+                if (!channel.hasHandlers()) {
+                    channel.unsubscribe();
+                }
+            },
+        };
+    }
+
+    /**
+     * What live() needs to apply changes locally, or null when it must run
+     * the query again for every change
+     */
+    private buildLiveView(options: LiveOptions): LiveView | null {
+        const localResult = this.resultMode === 'many' && !this.rpcCall && !this.mediaType && !this.explainOptions;
+        const embeddedModifiers =
+            Object.keys({ ...this.limits, ...this.offsets }).some((table) => table !== '') ||
+            this.orderByFields.some((order) => order.referencedTable);
+        if (!localResult || this.isHead || this.aggregates.length > 0 || embeddedModifiers || this.offsets['']) {
+            return null;
+        }
+
+        const filters = this.keyset?.after
+            ? [...this.filters, this.buildKeysetFilter(this.keyset, this.keyset.after)]
+            : this.filters;
+        const columns = parseSelectedColumns(this.selectFields);
+        if (!columns || !canEvaluateFilters(filters)) {
+            return null;
+        }
+
+        // Rows are matched by primary key and sorted after projection, so
+        // both must be selected under their own names
+        const primaryKey = [options.primaryKey ?? 'id'].flat();
+        const selected = (column: string) =>
+            columns === '*' || columns.some((c) => c.column === '*' || (c.column === column && c.alias === column));
+        const orderColumns = this.orderByFields.map((order) => order.field.split('->')[0]);
+        if (![...primaryKey, ...orderColumns].every(selected)) {
+            return null;
+        }
+
+        return { filters, order: this.orderByFields, limit: this.limits[''], columns, primaryKey };
+    }
+
+    /**
+     * Await the builder directly instead of calling execute()
+     *
+     * @example
+     * ```typescript
+     * const { data, error } = await client.from('users').select('id, name').eq('role', 'admin');
+     * ```
+     */
+    then<TResult1 = AeroDBResponse<R>, TResult2 = never>(
+        onfulfilled?: ((value: AeroDBResponse<R>) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+    ): Promise<TResult1 | TResult2> {
+        return this.execute().then(onfulfilled, onrejected);
+    }
+
+    /**
+     * Unwrap an array response for single() / maybeSingle()
+     *
+     * The object Accept header makes the server do this itself; the array
+     * case covers maybeSingle() and servers that ignore the header.
+     */
+    private toSingleResponse(rows: unknown[], count: number | null): AeroDBResponse<R> {
+        if (rows.length === 1) {
+            return { data: rows[0] as R, error: null, count };
+        }
+        if (rows.length === 0 && this.resultMode === 'maybeSingle') {
+            return { data: null, error: null, count };
+        }
+        return {
+            data: null,
+            error: {
+                message: 'JSON object requested, multiple (or no) rows returned',
+                status: 406,
+                code: 'PGRST116',
+                details: `The result contains ${rows.length} rows`,
+            },
+            count,
         };
     }
 
@@ -253,108 +933,478 @@ export class QueryBuilder<T = Record<string, unknown>> {
      * Insert rows
      */
     async insert(
-        data: Partial<T> | Partial<T>[]
+        data: Rel['Insert'] | Rel['Insert'][],
+        options: InsertOptions = {}
+    ): Promise<AeroDBResponse<T[]>> {
+        return this.writeRows(data, [], options);
+    }
+
+    /**
+     * Upsert rows (insert or update on conflict)
+     *
+     * @example
+     * ```typescript
+     * await client.from('memberships').upsert(rows, {
+     *   onConflict: ['team_id', 'user_id'],
+     *   ignoreDuplicates: true,
+     *   returning: 'minimal',
+     * });
+     * ```
+     */
+    async upsert(
+        data: Rel['Insert'] | Rel['Insert'][],
+        options: UpsertOptions = {}
     ): Promise<AeroDBResponse<T[]>> {
-        const url = `${this.baseUrl}/rest/v1/${this.collection}`;
+        const resolution = options.ignoreDuplicates ? 'ignore-duplicates' : 'merge-duplicates';
+        const params = new URLSearchParams();
+        if (options.onConflict) {
+            const columns = Array.isArray(options.onConflict)
+                ? options.onConflict.join(',')
+                : options.onConflict;
+            params.set('on_conflict', columns);
+        }
+
+        return this.writeRows(data, [`resolution=${resolution}`], options, params);
+    }
+
+    /**
+     * Insert a large number of rows in chunks
+     *
+     * Each chunk is a separate request, so request size stays bounded and a
+     * failing chunk does not stop the others. Failed chunks are retried
+     * (see `retry`), and those that still fail are listed in the result with
+     * their rows. `error` is set when any chunk failed; `data` always holds
+     * the summary.
+     *
+     * @example
+     * ```typescript
+     * const { data, error } = await client.from('contacts').insertMany(rows, {
+     *   chunkSize: 1000,
+     *   onProgress: ({ writtenRows, totalRows }) => console.log(`${writtenRows}/${totalRows}`),
+     * });
+     * for (const failure of data!.failures) {
+     *   console.error(`rows ${failure.from}-${failure.to}: ${failure.error.message}`);
+     * }
+     * ```
+     */
+    async insertMany(
+        rows: Rel['Insert'][],
+        options: BulkInsertOptions = {}
+    ): Promise<AeroDBResponse<BulkWriteResult<T, Rel['Insert']>>> {
+        return this.writeChunks(rows, (chunk) => this.insert(chunk, options), options);
+    }
+
+    /**
+     * Upsert a large number of rows in chunks
+     *
+     * Takes upsert()'s options plus the chunking options of insertMany().
+     */
+    async upsertMany(
+        rows: Rel['Insert'][],
+        options: BulkUpsertOptions = {}
+    ): Promise<AeroDBResponse<BulkWriteResult<T, Rel['Insert']>>> {
+        return this.writeChunks(rows, (chunk) => this.upsert(chunk, options), options);
+    }
+
+    /**
+     * Update rows matching filters
+     *
+     * With `concurrency`, the update only applies if the row has not changed
+     * since it was read: either a version column still holds the value read,
+     * or the row still matches an ETag (`If-Match`). Otherwise the result is
+     * a `CONFLICT` error carrying the current row, or the payload returned by
+     * `merge` is retried against that row. Meant for updates of a single row.
+     * Not available inside a transaction(), where the rows the check needs
+     * are only returned at commit.
+     *
+     * @example
+     * ```typescript
+     * const { data, error } = await client.from('documents').eq('id', doc.id).update(
+     *   { title },
+     *   { concurrency: { column: 'version', expected: doc.version } }
+     * );
+     * if (isConflictError<Document>(error)) {
+     *   showConflict(error.current);
+     * }
+     * ```
+     */
+    async update(
+        data: Rel['Update'],
+        options: UpdateOptions<T, Rel['Update']> = {}
+    ): Promise<AeroDBResponse<T[]>> {
+        const invalid = this.checkMutation('update');
+        if (invalid) {
+            return { data: null, error: invalid, count: null };
+        }
+        if (options.concurrency && this.inTransaction) {
+            return {
+                data: null,
+                error: {
+                    message: 'update() with concurrency is not supported inside a transaction',
+                    code: 'UNSUPPORTED_IN_TRANSACTION',
+                },
+                count: null,
+            };
+        }
+        if (options.concurrency) {
+            return this.updateIfUnchanged(data, options, options.concurrency);
+        }
+        return this.patch(data, options);
+    }
+
+    /**
+     * Delete rows matching filters
+     */
+    async delete(options: DeleteOptions = {}): Promise<AeroDBResponse<T[]>> {
+        const invalid = this.checkMutation('delete');
+        if (invalid) {
+            return { data: null, error: invalid, count: null };
+        }
+
+        const queryString = this.buildQueryString();
+        const url = `${this.baseUrl}/rest/v1/${this.collection}?${queryString}`;
 
         const headers: Record<string, string> = {
-            Prefer: 'return=representation',
+            Prefer: this.buildPreferHeader([`return=${options.returning ?? 'representation'}`], options.count),
         };
         if (this.schema !== 'public') {
             headers['Content-Profile'] = this.schema;
         }
 
         const result = await this.fetch<T[]>(url, {
-            method: 'POST',
+            method: 'DELETE',
             headers,
-            body: JSON.stringify(data),
         });
+        await this.cache?.invalidate(this.cacheTag(this.collection));
 
         return {
             data: result.data,
             error: result.error,
+            count: result.count ?? null,
         };
     }
 
     /**
-     * Upsert rows (insert or update on conflict)
+     * Error for an update() / delete() that must not be sent: one without
+     * filters (unless allowed), or one limited without an order
      */
-    async upsert(
-        data: Partial<T> | Partial<T>[],
-        options: { onConflict?: string } = {}
+    private checkMutation(method: 'update' | 'delete'): AeroDBError | null {
+        // Filters on embedded resources (`posts.published`) don't narrow the rows being changed
+        const filtered = this.filters.some(
+            (filter) => !filter.referencedTable && (isFilterGroup(filter) || !filter.field.split('->')[0].includes('.'))
+        );
+        if (this.safeMutations && !this.allowAllRows && !filtered) {
+            return {
+                message: `${method}() without filters would change every row; add a filter or call allRows()`,
+                code: 'UNFILTERED_MUTATION',
+            };
+        }
+
+        const limited = this.limits[''] !== undefined;
+        const ordered = this.orderByFields.some((order) => !order.referencedTable);
+        if (limited && !ordered) {
+            return {
+                message: `${method}() with limit() needs an order() to choose the rows`,
+                code: 'LIMIT_WITHOUT_ORDER',
+            };
+        }
+        return null;
+    }
+
+    /**
+     * PATCH the matching rows, optionally guarded by a precondition
+     */
+    private async patch(
+        data: Rel['Update'],
+        options: UpdateOptions<T, Rel['Update']>,
+        precondition?: Precondition
     ): Promise<AeroDBResponse<T[]>> {
-        const url = `${this.baseUrl}/rest/v1/${this.collection}`;
+        const params = new URLSearchParams();
+        if (precondition && 'column' in precondition) {
+            params.append(
+                precondition.column,
+                // `eq.null` matches nothing: a column never set is checked with `is`
+                this.serializeFilterValue({
+                    field: precondition.column,
+                    operator: precondition.expected === null ? 'is' : 'eq',
+                    value: precondition.expected,
+                })
+            );
+        }
+        const queryString = this.buildQueryString(params);
+        const url = `${this.baseUrl}/rest/v1/${this.collection}?${queryString}`;
 
         const headers: Record<string, string> = {
-            Prefer: 'return=representation,resolution=merge-duplicates',
+            Prefer: this.buildPreferHeader([`return=${options.returning ?? 'representation'}`], options.count),
         };
         if (this.schema !== 'public') {
             headers['Content-Profile'] = this.schema;
         }
-        if (options.onConflict) {
-            headers['on-conflict'] = options.onConflict;
+        if (precondition && 'etag' in precondition) {
+            headers['If-Match'] = precondition.etag;
         }
 
         const result = await this.fetch<T[]>(url, {
-            method: 'POST',
+            method: 'PATCH',
             headers,
             body: JSON.stringify(data),
         });
+        await this.cache?.invalidate(this.cacheTag(this.collection));
 
         return {
             data: result.data,
             error: result.error,
+            count: result.count ?? null,
         };
     }
 
     /**
-     * Update rows matching filters
+     * update() with a concurrency check, retrying through `merge` on conflict
      */
-    async update(data: Partial<T>): Promise<AeroDBResponse<T[]>> {
-        const queryString = this.buildQueryString();
-        const url = `${this.baseUrl}/rest/v1/${this.collection}?${queryString}`;
+    private async updateIfUnchanged(
+        data: Rel['Update'],
+        options: UpdateOptions<T, Rel['Update']>,
+        check: ConcurrencyOptions<T, Rel['Update']>
+    ): Promise<AeroDBResponse<T[]>> {
+        const maxRetries = check.maxRetries ?? 3;
+        let precondition: Precondition = check.etag !== undefined
+            ? { etag: check.etag }
+            : { column: check.column, expected: check.expected };
+        let payload = data;
 
-        const headers: Record<string, string> = {
-            Prefer: 'return=representation',
-        };
+        for (let retries = 0; ; retries++) {
+            let result: AeroDBResponse<T[]>;
+            let conflicted: boolean;
+            if ('column' in precondition) {
+                // An unchanged row is recognised by being returned, so ask for it
+                result = await this.patch(
+                    withVersion(payload, precondition, retries > 0),
+                    { ...options, returning: 'representation' },
+                    precondition
+                );
+                conflicted = !result.error && result.data?.length === 0;
+                if (!conflicted && options.returning === 'minimal') {
+                    result = { ...result, data: null };
+                }
+            } else {
+                result = await this.patch(payload, options, precondition);
+                conflicted = result.error?.status === 412;
+            }
+            if (!conflicted) {
+                return result;
+            }
+
+            const current = await this.readCurrentRow();
+            if (current.error) {
+                return { data: null, error: current.error, count: null };
+            }
+            // No row to conflict with: the filters match nothing, as in a plain update
+            if (!current.row && 'column' in precondition) {
+                return result;
+            }
+
+            const conflict: ConflictError<T> = {
+                message: 'The row was changed by another request',
+                status: 409,
+                code: 'CONFLICT',
+                current: current.row,
+            };
+            const next: Precondition | null = !current.row
+                ? null
+                : 'column' in precondition
+                  ? { ...precondition, expected: (current.row as Record<string, unknown>)[precondition.column] }
+                  : current.etag
+                    ? { etag: current.etag }
+                    : null;
+            if (!check.merge || !next || retries >= maxRetries) {
+                return { data: null, error: conflict, count: null };
+            }
+
+            const merged = await check.merge(current.row!, payload);
+            if (merged === null || merged === undefined) {
+                return { data: null, error: conflict, count: null };
+            }
+            payload = merged;
+            precondition = next;
+        }
+    }
+
+    /**
+     * Read the first row matching the filters, with its ETag
+     */
+    private async readCurrentRow(): Promise<{ row: T | null; etag: string | null; error: AeroDBError | null }> {
+        const queryString = this.buildQueryString();
+        const headers: Record<string, string> = {};
         if (this.schema !== 'public') {
-            headers['Content-Profile'] = this.schema;
+            headers['Accept-Profile'] = this.schema;
         }
 
-        const result = await this.fetch<T[]>(url, {
-            method: 'PATCH',
+        const result = await this.fetch<T[]>(`${this.baseUrl}/rest/v1/${this.collection}?${queryString}`, {
+            method: 'GET',
             headers,
-            body: JSON.stringify(data),
         });
 
         return {
-            data: result.data,
+            row: result.data?.[0] ?? null,
+            etag: result.etag ?? null,
             error: result.error,
         };
     }
 
     /**
-     * Delete rows matching filters
+     * POST rows for insert and upsert
      */
-    async delete(): Promise<AeroDBResponse<T[]>> {
-        const queryString = this.buildQueryString();
-        const url = `${this.baseUrl}/rest/v1/${this.collection}?${queryString}`;
+    private async writeRows(
+        data: Rel['Insert'] | Rel['Insert'][],
+        directives: string[],
+        options: InsertOptions,
+        params: URLSearchParams = new URLSearchParams()
+    ): Promise<AeroDBResponse<T[]>> {
+        const prefer = [`return=${options.returning ?? 'representation'}`, ...directives];
+        if (options.defaultToNull === false) {
+            prefer.push('missing=default');
+        }
+
+        // Bulk payloads name their columns explicitly, so rows with
+        // different key sets are still inserted column by column.
+        if (Array.isArray(data)) {
+            const columns = new Set<string>();
+            for (const row of data) {
+                Object.keys(row as object).forEach((key) => columns.add(key));
+            }
+            if (columns.size > 0) {
+                params.set('columns', [...columns].join(','));
+            }
+        }
+
+        const queryString = params.toString();
+        const url = `${this.baseUrl}/rest/v1/${this.collection}${queryString ? `?${queryString}` : ''}`;
 
         const headers: Record<string, string> = {
-            Prefer: 'return=representation',
+            Prefer: this.buildPreferHeader(prefer, options.count),
         };
         if (this.schema !== 'public') {
             headers['Content-Profile'] = this.schema;
         }
 
         const result = await this.fetch<T[]>(url, {
-            method: 'DELETE',
+            method: 'POST',
             headers,
+            body: JSON.stringify(data),
         });
+        await this.cache?.invalidate(this.cacheTag(this.collection));
 
         return {
             data: result.data,
             error: result.error,
+            count: result.count ?? null,
         };
     }
+
+    /**
+     * Send rows in chunks through `write`, at most `concurrency` at a time
+     */
+    private async writeChunks(
+        rows: Rel['Insert'][],
+        write: (chunk: Rel['Insert'][]) => Promise<AeroDBResponse<T[]>>,
+        options: BulkWriteOptions
+    ): Promise<AeroDBResponse<BulkWriteResult<T, Rel['Insert']>>> {
+        const chunkSize = Math.max(1, Math.floor(options.chunkSize ?? DEFAULT_CHUNK_SIZE));
+        const chunks: Rel['Insert'][][] = [];
+        for (let from = 0; from < rows.length; from += chunkSize) {
+            chunks.push(rows.slice(from, from + chunkSize));
+        }
+
+        const written: T[][] = new Array(chunks.length);
+        const failures: BulkChunkFailure<Rel['Insert']>[] = [];
+        let completedChunks = 0;
+        let writtenRows = 0;
+        let failedRows = 0;
+
+        const writeChunk = async (index: number): Promise<void> => {
+            const chunk = chunks[index];
+            let attempts = 0;
+            const attempt = async () => {
+                attempts++;
+                const result = await write(chunk);
+                if (result.error) {
+                    throw new ChunkWriteError(result.error);
+                }
+                return result.data ?? [];
+            };
+
+            try {
+                written[index] = options.retry === false
+                    ? await attempt()
+                    : await withRetry(attempt, options.retry);
+                writtenRows += chunk.length;
+            } catch (err) {
+                const error: AeroDBError = err instanceof ChunkWriteError
+                    ? err.error
+                    : { message: err instanceof Error ? err.message : String(err) };
+                const from = index * chunkSize;
+                failures.push({ chunk: index, from, to: from + chunk.length - 1, rows: chunk, error, attempts });
+                failedRows += chunk.length;
+            }
+
+            completedChunks++;
+            options.onProgress?.({
+                completedChunks,
+                totalChunks: chunks.length,
+                writtenRows,
+                failedRows,
+                totalRows: rows.length,
+            });
+        };
+
+        let next = 0;
+        const worker = async () => {
+            while (next < chunks.length) {
+                await writeChunk(next++);
+            }
+        };
+        const concurrency = Math.max(1, Math.floor(options.concurrency ?? DEFAULT_CONCURRENCY));
+        await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+        failures.sort((a, b) => a.chunk - b.chunk);
+        const data: BulkWriteResult<T, Rel['Insert']> = {
+            rows: written.flatMap((chunkRows) => chunkRows ?? []),
+            writtenRows,
+            totalRows: rows.length,
+            totalChunks: chunks.length,
+            failures,
+        };
+
+        if (failures.length === 0) {
+            return { data, error: null };
+        }
+        return {
+            data,
+            error: {
+                message: `${failures.length} of ${chunks.length} chunks failed (${failedRows} rows)`,
+                code: 'BULK_WRITE_FAILED',
+            },
+        };
+    }
+}
+
+/**
+ * Check whether an error is the `CONFLICT` of a concurrency-checked update()
+ */
+export function isConflictError<T = Record<string, unknown>>(error: AeroDBError | null): error is ConflictError<T> {
+    return error?.code === 'CONFLICT';
+}
+
+/**
+ * Payload with a numeric version column incremented, unless the caller's
+ * payload sets the column itself. A merged payload (`retry`) is always
+ * incremented: spreading the current row copies its version, and writing
+ * that back unchanged would let other writers holding it go unchecked.
+ */
+function withVersion<U>(payload: U, precondition: { column: string; expected: unknown }, retry: boolean): U {
+    const { column, expected } = precondition;
+    if (typeof expected !== 'number' || (!retry && column in (payload as object))) {
+        return payload;
+    }
+    return { ...payload, [column]: expected + 1 };
 }
@@ -0,0 +1,141 @@
+/**
+ * PostgREST value encoding
+ *
+ * Turns filter values into the text PostgREST expects. Scalars are
+ * serialised deterministically (ISO dates, exact bigints), and values are
+ * double-quoted wherever the surrounding syntax would otherwise split them:
+ * inside `in` lists, logic groups and Postgres array literals.
+ */
+
+import type { FilterOperator } from './types';
+
+/**
+ * Characters that end a value inside `in` lists and logic groups
+ */
+const RESERVED_IN_GROUP = /[,()"\\]|^\s|\s$/;
+
+/**
+ * Characters that must be quoted inside a Postgres array literal
+ */
+const RESERVED_IN_ARRAY = /[,{}"\\\s]/;
+
+const CONTAINMENT_OPERATORS = new Set<FilterOperator>(['cs', 'cd', 'ov']);
+
+/**
+ * Serialise a single value as text
+ *
+ * Dates use ISO 8601 in UTC, bigints keep every digit, arrays become
+ * Postgres array literals and other objects JSON.
+ *
+ * @example
+ * ```typescript
+ * encodeScalar(new Date(Date.UTC(2024, 0, 2)));   // '2024-01-02T00:00:00.000Z'
+ * encodeScalar(9007199254740993n);               // '9007199254740993'
+ * encodeScalar([[1, 2], [3, 4]]);                // '{{1,2},{3,4}}'
+ * ```
+ */
+export function encodeScalar(value: unknown): string {
+    if (value === null || value === undefined) {
+        return 'null';
+    }
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (Array.isArray(value)) {
+        return encodeArrayLiteral(value);
+    }
+    if (typeof value === 'object') {
+        return encodeJson(value);
+    }
+    return String(value);
+}
+
+/**
+ * Serialise an array as a Postgres array literal (`{a,"b c",{1,2}}`)
+ */
+export function encodeArrayLiteral(values: readonly unknown[]): string {
+    return `{${values.map(encodeArrayElement).join(',')}}`;
+}
+
+/**
+ * Serialise values as a PostgREST `in` list (`(a,"Smith, Jr.")`)
+ */
+export function encodeList(values: readonly unknown[]): string {
+    return `(${values.map((value) => quoteValue(encodeScalar(value))).join(',')})`;
+}
+
+/**
+ * Double-quote a value that would otherwise be split inside a list or
+ * logic group, escaping `"` and `\`
+ */
+export function quoteValue(text: string): string {
+    if (text !== '' && !RESERVED_IN_GROUP.test(text)) {
+        return text;
+    }
+    return `"${escapeQuoted(text)}"`;
+}
+
+/**
+ * Encode the value of a filter for its operator
+ *
+ * `nested` is set for filters inside or() / and() groups, where the value
+ * is delimited by commas and parentheses and therefore quoted when needed.
+ */
+export function encodeFilterValue(operator: FilterOperator, value: unknown, nested = false): string {
+    if (operator === 'in' && Array.isArray(value)) {
+        return encodeList(value);
+    }
+
+    let text: string;
+    if (operator === 'is') {
+        text = value === null || value === undefined ? 'null' : String(value);
+    } else if (CONTAINMENT_OPERATORS.has(operator) && typeof value === 'string') {
+        // Range and array literals are sent as written
+        text = value;
+    } else {
+        text = encodeScalar(value);
+    }
+
+    return nested ? quoteValue(text) : text;
+}
+
+function encodeArrayElement(element: unknown): string {
+    if (element === null || element === undefined) {
+        return 'NULL';
+    }
+    if (Array.isArray(element)) {
+        return encodeArrayLiteral(element);
+    }
+    const text = encodeScalar(element);
+    if (text !== '' && !RESERVED_IN_ARRAY.test(text) && text.toUpperCase() !== 'NULL') {
+        return text;
+    }
+    return `"${escapeQuoted(text)}"`;
+}
+
+function escapeQuoted(text: string): string {
+    return text.replace(/["\\]/g, '\\$&');
+}
+
+/**
+ * JSON text for JSONB values; unlike JSON.stringify, bigints are written as
+ * exact numbers instead of throwing
+ */
+function encodeJson(value: unknown): string {
+    if (typeof value === 'bigint') {
+        return value.toString();
+    }
+    if (value instanceof Date) {
+        return JSON.stringify(value.toISOString());
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map((item) => (item === undefined ? 'null' : encodeJson(item))).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+        const members = Object.entries(value)
+            .filter(([, member]) => member !== undefined)
+            .map(([key, member]) => `${JSON.stringify(key)}:${encodeJson(member)}`);
+        return `{${members.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
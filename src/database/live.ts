@@ -0,0 +1,303 @@
+/**
+ * Client-side evaluation of queries for live()
+ *
+ * Realtime payloads carry whole rows, so a live query can usually apply a
+ * change to its result without asking the server again: check the row
+ * against the filters (with SQL's NULL semantics), project the selected
+ * columns, re-sort and re-apply the limit. Anything this module cannot
+ * evaluate is reported so the caller refetches instead.
+ */
+
+import type { RealtimePayload } from '../realtime/types';
+import { encodeScalar } from './encoding';
+import { isFilterGroup } from './FilterBuilder';
+import type { Filter, FilterNode, FilterOperator, OrderBy } from './types';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Selected column: the row key it is read from and the key it is returned as
+ */
+interface SelectedColumn {
+    column: string;
+    alias: string;
+}
+
+/**
+ * What a live query needs to keep its result up to date locally
+ */
+export interface LiveView {
+    filters: FilterNode[];
+    order: OrderBy[];
+    limit?: number;
+    /** Selected columns, or '*' for whole rows */
+    columns: SelectedColumn[] | '*';
+    primaryKey: string[];
+}
+
+const LOCAL_OPERATORS = new Set<FilterOperator>(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'in', 'is']);
+
+/**
+ * Parse a select string into columns that can be picked from a row.
+ * Returns null for embedded resources, casts, JSON paths and aggregates.
+ */
+export function parseSelectedColumns(select: string): SelectedColumn[] | '*' | null {
+    if (select.trim() === '*') {
+        return '*';
+    }
+    if (/[()]|::|->/.test(select)) {
+        return null;
+    }
+
+    const columns: SelectedColumn[] = [];
+    for (const item of select.split(',').map((part) => part.trim())) {
+        const match = /^(?:([A-Za-z_]\w*):)?([A-Za-z_]\w*|\*)$/.exec(item);
+        if (!match || (match[2] === '*' && match[1])) {
+            return null;
+        }
+        columns.push({ column: match[2], alias: match[1] ?? match[2] });
+    }
+    return columns;
+}
+
+/**
+ * Whether every filter can be evaluated against a row here
+ */
+export function canEvaluateFilters(filters: FilterNode[]): boolean {
+    return filters.every((node) => {
+        if (node.referencedTable) {
+            return false;
+        }
+        if (isFilterGroup(node)) {
+            return typeof node.filters !== 'string' && canEvaluateFilters(node.filters);
+        }
+        return (
+            LOCAL_OPERATORS.has(node.operator) &&
+            (node.operator !== 'in' || Array.isArray(node.value)) &&
+            !node.field.split('->')[0].includes('.')
+        );
+    });
+}
+
+/**
+ * Whether a row satisfies all filters (unknown, i.e. NULL, counts as no)
+ */
+export function matchesFilters(row: Row, filters: FilterNode[]): boolean {
+    return evaluateAll(row, filters, 'and') === true;
+}
+
+/**
+ * Comparator ordering rows like the query's order(); nulls sort last when
+ * ascending and first when descending, unless set explicitly
+ */
+export function compareRows(order: OrderBy[]): (a: Row, b: Row) => number {
+    return (a, b) => {
+        for (const { field, ascending, nullsFirst = !ascending } of order) {
+            const left = readColumn(a, field);
+            const right = readColumn(b, field);
+            if (isNull(left) || isNull(right)) {
+                if (isNull(left) && isNull(right)) {
+                    continue;
+                }
+                return isNull(left) === nullsFirst ? -1 : 1;
+            }
+            const result = compareValues(left, right) ?? compareText(encodeScalar(left), encodeScalar(right));
+            if (result !== 0) {
+                return ascending ? result : -result;
+            }
+        }
+        return 0;
+    };
+}
+
+/**
+ * Apply a realtime change to a result
+ *
+ * Returns null when the new result cannot be known locally: a row left (or
+ * moved to the end of) a result that was cut off by its limit, so rows that
+ * now belong in it have never been loaded.
+ */
+export function applyChange(rows: Row[], payload: RealtimePayload, view: LiveView): Row[] | null {
+    const keyOf = (row: Row) => JSON.stringify(view.primaryKey.map((column) => encodeScalar(row[column])));
+    const identity = payload.old && view.primaryKey.every((column) => column in payload.old!)
+        ? payload.old
+        : payload.new;
+    if (!identity) {
+        return rows;
+    }
+
+    const key = keyOf(identity);
+    const wasPresent = rows.some((row) => keyOf(row) === key);
+    let next = rows.filter((row) => keyOf(row) !== key);
+
+    if (payload.type !== 'DELETE' && payload.new && matchesFilters(payload.new, view.filters)) {
+        next.push(project(payload.new, view.columns));
+        if (view.order.length > 0) {
+            next.sort(compareRows(view.order));
+        }
+    }
+
+    const wasFull = view.limit !== undefined && rows.length >= view.limit;
+    if (view.limit !== undefined && next.length > view.limit) {
+        next = next.slice(0, view.limit);
+    }
+    if (wasFull && wasPresent) {
+        // Unloaded rows may sort before a row that moved to the end
+        const index = next.findIndex((row) => keyOf(row) === key);
+        if (index === -1 || (view.order.length > 0 && index === next.length - 1)) {
+            return null;
+        }
+    }
+    return next;
+}
+
+function project(row: Row, columns: SelectedColumn[] | '*'): Row {
+    if (columns === '*') {
+        return { ...row };
+    }
+    const projected: Row = {};
+    for (const { column, alias } of columns) {
+        if (column === '*') {
+            Object.assign(projected, row);
+        } else {
+            projected[alias] = row[column];
+        }
+    }
+    return projected;
+}
+
+/**
+ * Three-valued result of a filter: null when SQL would yield NULL
+ */
+type Truth = boolean | null;
+
+function evaluateAll(row: Row, filters: FilterNode[], logic: 'and' | 'or'): Truth {
+    let result: Truth = logic === 'and';
+    for (const node of filters) {
+        const value = evaluate(row, node);
+        if (value === (logic === 'or')) {
+            return value;
+        }
+        if (value === null) {
+            result = null;
+        }
+    }
+    return result;
+}
+
+function evaluate(row: Row, node: FilterNode): Truth {
+    const result = isFilterGroup(node)
+        ? evaluateAll(row, node.filters as FilterNode[], node.logic)
+        : evaluateFilter(row, node);
+    return node.negate && result !== null ? !result : result;
+}
+
+function evaluateFilter(row: Row, filter: Filter): Truth {
+    const value = readColumn(row, filter.field);
+
+    if (filter.operator === 'is') {
+        if (filter.value === null || filter.value === 'unknown') {
+            return isNull(value);
+        }
+        return value === (filter.value === true || filter.value === 'true');
+    }
+    if (isNull(value)) {
+        return null;
+    }
+
+    switch (filter.operator) {
+        case 'eq':
+            return valuesEqual(value, filter.value);
+        case 'neq':
+            return !valuesEqual(value, filter.value);
+        case 'in': {
+            const candidates = filter.value as unknown[];
+            if (candidates.some((candidate) => !isNull(candidate) && valuesEqual(value, candidate))) {
+                return true;
+            }
+            return candidates.some(isNull) ? null : false;
+        }
+        case 'like':
+        case 'ilike':
+            return likePattern(String(filter.value), filter.operator === 'ilike').test(encodeScalar(value));
+        default: {
+            const order = compareValues(value, filter.value) ?? compareText(encodeScalar(value), encodeScalar(filter.value));
+            return {
+                gt: order > 0,
+                gte: order >= 0,
+                lt: order < 0,
+                lte: order <= 0,
+            }[filter.operator as 'gt' | 'gte' | 'lt' | 'lte'];
+        }
+    }
+}
+
+/**
+ * Value of a column or JSON path (`metadata->plan->>tier`)
+ */
+function readColumn(row: Row, field: string): unknown {
+    const [column, ...path] = field.split(/->>?/);
+    let value: unknown = row[column];
+    for (const key of path) {
+        value = value !== null && typeof value === 'object' ? (value as Row)[key] : undefined;
+    }
+    // `->>` returns text
+    if (field.includes('->>') && value !== null && value !== undefined && typeof value !== 'string') {
+        return encodeScalar(value);
+    }
+    return value;
+}
+
+function isNull(value: unknown): boolean {
+    return value === null || value === undefined;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+    const order = compareValues(a, b);
+    return order !== null ? order === 0 : encodeScalar(a) === encodeScalar(b);
+}
+
+/**
+ * Compare numbers (against numbers or numeric strings, as `numeric`
+ * columns arrive as strings) or dates; null when the values are neither
+ */
+function compareValues(a: unknown, b: unknown): number | null {
+    if ((isNumber(a) || isNumber(b)) && isNumeric(a) && isNumeric(b)) {
+        const [x, y] = [Number(a), Number(b)];
+        return x === y ? 0 : x < y ? -1 : 1;
+    }
+    if (a instanceof Date || b instanceof Date) {
+        const [x, y] = [new Date(a as string).getTime(), new Date(b as string).getTime()];
+        if (!Number.isNaN(x) && !Number.isNaN(y)) {
+            return x === y ? 0 : x < y ? -1 : 1;
+        }
+    }
+    return null;
+}
+
+function isNumber(value: unknown): boolean {
+    return typeof value === 'number' || typeof value === 'bigint';
+}
+
+function isNumeric(value: unknown): boolean {
+    if (isNumber(value)) {
+        return true;
+    }
+    return typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value));
+}
+
+function compareText(a: string, b: string): number {
+    return a === b ? 0 : a < b ? -1 : 1;
+}
+
+/**
+ * LIKE pattern as a regular expression (`%` or `*` for any run, `_` for
+ * one character)
+ */
+function likePattern(pattern: string, caseInsensitive: boolean): RegExp {
+    const source = pattern
+        .split('')
+        .map((ch) => (ch === '%' || ch === '*' ? '.*' : ch === '_' ? '.' : ch.replace(/[.+?^${}()|[\]\\]/g, '\\$&')))
+        .join('');
+    return new RegExp(`^${source}$`, caseInsensitive ? 'si' : 's');
+}
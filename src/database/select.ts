@@ -0,0 +1,307 @@
+/**
+ * Select string type parsing
+ *
+ * Turns the column string passed to select() into the shape of each
+ * returned row, at compile time. Supports column lists, aliases
+ * (`alias:col`), casts (`col::text`), JSON paths (`data->>key`), `*` and
+ * embedded resources (`author:users!fk(name)`, `...profile(bio)`) and
+ * aggregates (`amount.sum()`, `count()`).
+ * Unknown columns produce a SelectQueryError, which select() reports as a
+ * type error on its argument.
+ */
+
+import type { GenericRelationship, GenericSchema, RelationShape } from './types';
+
+/**
+ * Marker for a part of a select string that could not be resolved
+ */
+export interface SelectQueryError<Message extends string> {
+    readonly error: Message;
+}
+
+type Whitespace = ' ' | '\n' | '\t' | '\r';
+
+type Trim<S extends string> = S extends `${Whitespace}${infer Rest}`
+    ? Trim<Rest>
+    : S extends `${infer Rest}${Whitespace}`
+      ? Trim<Rest>
+      : S;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Split a select string on top-level commas (commas inside embedded
+ * resources belong to the nested select)
+ */
+type SplitFields<
+    S extends string,
+    Depth extends unknown[] = [],
+    Current extends string = '',
+    Fields extends string[] = [],
+> = S extends `${infer C}${infer Rest}`
+    ? C extends '('
+        ? SplitFields<Rest, [...Depth, unknown], `${Current}${C}`, Fields>
+        : C extends ')'
+          ? SplitFields<Rest, Depth extends [unknown, ...infer D] ? D : [], `${Current}${C}`, Fields>
+          : C extends ','
+            ? Depth extends []
+                ? SplitFields<Rest, Depth, '', [...Fields, Trim<Current>]>
+                : SplitFields<Rest, Depth, `${Current}${C}`, Fields>
+            : SplitFields<Rest, Depth, `${Current}${C}`, Fields>
+    : Trim<Current> extends ''
+      ? Fields
+      : [...Fields, Trim<Current>];
+
+/**
+ * Type produced by a `::cast`
+ */
+type CastType<Cast extends string> = Cast extends 'text' | 'varchar' | 'char' | 'uuid' | 'date' | 'time'
+    ? string
+    : Cast extends `timestamp${string}` | `character${string}`
+      ? string
+      : Cast extends 'int' | 'int2' | 'int4' | 'int8' | 'integer' | 'smallint' | 'bigint' | 'numeric'
+        ? number
+        : Cast extends 'real' | 'float4' | 'float8' | 'double precision'
+          ? number
+          : Cast extends 'bool' | 'boolean'
+            ? boolean
+            : unknown;
+
+/**
+ * Key and value type of a JSON path: `->>` yields text, `->` yields JSON
+ */
+type JsonPathField<Path extends string> = Path extends `${string}->${infer Rest}`
+    ? JsonPathField<Rest>
+    : Path extends `>${infer Key}`
+      ? [Key, string | null]
+      : [Path, unknown];
+
+type ColumnNotFound<Column extends string> = SelectQueryError<`column '${Column}' does not exist`>;
+
+/**
+ * Schema carried by the relation context, if the client is typed
+ */
+type ContextSchema<Rel> = Rel extends { Schema: infer Schema extends GenericSchema } ? Schema : never;
+
+type ContextName<Rel> = Rel extends { Name: infer Name extends string } ? Name : never;
+
+type RowOf<Schema extends GenericSchema, Name extends string> = Name extends keyof Schema['Tables']
+    ? Schema['Tables'][Name]['Row']
+    : Name extends keyof Schema['Views']
+      ? Schema['Views'][Name]['Row']
+      : never;
+
+type RelationshipsOf<Schema extends GenericSchema, Name extends string> = (Name extends keyof Schema['Tables']
+    ? Schema['Tables'][Name]
+    : Name extends keyof Schema['Views']
+      ? Schema['Views'][Name]
+      : never) extends { Relationships: infer Relationships extends GenericRelationship[] }
+    ? Relationships[number]
+    : never;
+
+/**
+ * Context for selecting inside an embedded relation
+ */
+interface EmbeddedContext<Schema extends GenericSchema, Name extends string> extends RelationShape {
+    Insert: never;
+    Update: never;
+    Schema: Schema;
+    Name: Name;
+}
+
+/**
+ * Resolve the relation an embed refers to: a relation name, or a
+ * foreign key column of the current relation
+ */
+type EmbeddedRelation<Schema extends GenericSchema, Current extends string, Target extends string> =
+    [RowOf<Schema, Target>] extends [never]
+        ? ForeignKeyTarget<Extract<RelationshipsOf<Schema, Current>, { columns: [Target, ...string[]] }>>
+        : Target;
+
+type ForeignKeyTarget<Relationship> = [Relationship] extends [never]
+    ? never
+    : Relationship extends { referencedRelation: infer Referenced extends string }
+      ? Referenced
+      : never;
+
+/**
+ * Shape of an embedded resource: one row for many-to-one and one-to-one
+ * relationships, an array otherwise. `!inner` removes the null case.
+ */
+type EmbeddedResult<
+    Schema extends GenericSchema,
+    Current extends string,
+    Related extends string,
+    Inner extends string,
+    IsInner extends boolean,
+> = [Extract<RelationshipsOf<Schema, Current>, { referencedRelation: Related }>] extends [never]
+    ? [Extract<RelationshipsOf<Schema, Related>, { referencedRelation: Current; isOneToOne: true }>] extends [never]
+        ? SelectResult<RowOf<Schema, Related>, Inner, EmbeddedContext<Schema, Related>>[]
+        : SelectResult<RowOf<Schema, Related>, Inner, EmbeddedContext<Schema, Related>> | (IsInner extends true ? never : null)
+    : SelectResult<RowOf<Schema, Related>, Inner, EmbeddedContext<Schema, Related>> | (IsInner extends true ? never : null);
+
+/**
+ * `rel!hint!inner` → relation name and whether the join is inner
+ */
+type EmbedTarget<Head extends string> = Head extends `${infer Name}!${infer Modifiers}`
+    ? [Trim<Name>, Modifiers extends `${string}inner${string}` ? true : false]
+    : [Trim<Head>, false];
+
+/**
+ * Field produced by an embedded resource `[alias:]rel[!hint](select)`
+ */
+type EmbeddedField<Rel, Head extends string, Inner extends string> =
+    Head extends `...${infer Spread}`
+        ? EmbeddedValue<Rel, Spread, Inner> extends infer Value
+            ? Value extends (infer Element)[]
+                ? Element
+                : NonNullable<Value>
+            : never
+        : Head extends `${infer Alias}:${infer Target}`
+          ? { [K in Trim<Alias>]: EmbeddedValue<Rel, Target, Inner> }
+          : { [K in EmbedTarget<Head>[0]]: EmbeddedValue<Rel, Head, Inner> };
+
+type EmbeddedValue<Rel, Head extends string, Inner extends string> = [ContextSchema<Rel>] extends [never]
+    ? unknown
+    : EmbeddedRelation<ContextSchema<Rel>, ContextName<Rel>, EmbedTarget<Head>[0]> extends infer Related extends string
+      ? [Related] extends [never]
+          ? SelectQueryError<`relation '${EmbedTarget<Head>[0]}' does not exist`>
+          : EmbeddedResult<ContextSchema<Rel>, ContextName<Rel>, Related, Inner, EmbedTarget<Head>[1]>
+      : never;
+
+/**
+ * Field produced by a plain column, possibly aliased, cast or a JSON path
+ */
+type ColumnField<Row, Field extends string> = Field extends `${infer Base}::${infer Cast}`
+    ? CastField<ColumnField<Row, Trim<Base>>, CastType<Trim<Cast>>>
+    : Field extends `${infer Alias}:${infer Column}`
+      ? { [K in Trim<Alias>]: FieldValue<ColumnField<Row, Trim<Column>>> }
+      : Field extends `${infer Column}->${infer Path}`
+        ? Column extends keyof Row
+            ? { [K in JsonPathField<Path>[0]]: JsonPathField<Path>[1] }
+            : { [K in Column]: ColumnNotFound<Column> }
+        : Field extends '*'
+          ? Row
+          : { [K in Field]: Field extends keyof Row ? Row[Field] : ColumnNotFound<Field> };
+
+type FieldValue<Field> = Field[keyof Field];
+
+type CastField<Field, Cast> = {
+    [K in keyof Field]: Field[K] extends SelectQueryError<string> ? Field[K] : Cast;
+};
+
+/**
+ * Aggregate functions usable in a select string
+ */
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+type AggregateSyntax = `${string}.${AggregateFunction}()` | `${string}count()`;
+
+/**
+ * Value of an aggregate: counts are numbers; sum and avg are numbers and
+ * min and max the column type, all null when no rows are aggregated
+ */
+type AggregateValue<Row, Column extends string, Fn extends string> = Fn extends 'count'
+    ? number
+    : Column extends keyof Row
+      ? Fn extends 'sum' | 'avg'
+          ? number | null
+          : Row[Column] | null
+      : ColumnNotFound<Column>;
+
+/**
+ * Field produced by an aggregate `[alias:][column.]fn()`
+ */
+type AggregateField<Row, Field extends string> = Field extends `${infer Alias}:${infer Aggregate}`
+    ? { [K in Trim<Alias>]: FieldValue<AggregateField<Row, Trim<Aggregate>>> }
+    : Field extends 'count()'
+      ? { count: number }
+      : Field extends `${infer Column}.${infer Fn extends AggregateFunction}()`
+        ? { [K in Fn]: AggregateValue<Row, Trim<Column>, Fn> }
+        : never;
+
+type ParseField<Row, Rel, Field extends string> = Field extends AggregateSyntax
+    ? AggregateField<Row, Field>
+    : Field extends `${infer Head}(${infer Inner})`
+      ? EmbeddedField<Rel, Trim<Head>, Inner>
+      : ColumnField<Row, Field>;
+
+type BuildResult<Row, Rel, Fields extends string[]> = Fields extends [
+    infer Field extends string,
+    ...infer Rest extends string[],
+]
+    ? ParseField<Row, Rel, Field> & BuildResult<Row, Rel, Rest>
+    : unknown;
+
+/**
+ * Row shape selected by a select string
+ *
+ * @example
+ * ```typescript
+ * type Result = SelectResult<User, 'id, display:name, data->>plan'>;
+ * // { id: string; display: string; plan: string | null }
+ * ```
+ */
+export type SelectResult<Row, Query extends string, Rel = unknown> = string extends Query
+    ? Row
+    : Simplify<BuildResult<Row, Rel, SplitFields<Query>>>;
+
+/**
+ * Error messages of a select string's fields, walking nested selects
+ */
+type SelectErrors<Row, Rel, Fields extends string[]> = Fields extends [
+    infer Field extends string,
+    ...infer Rest extends string[],
+]
+    ? FieldErrors<Row, Rel, Field> | SelectErrors<Row, Rel, Rest>
+    : never;
+
+type FieldErrors<Row, Rel, Field extends string> = Field extends '*'
+    ? never
+    : Field extends AggregateSyntax
+      ? ErrorMessages<AggregateField<Row, Field>>
+      : Field extends `${infer Head}(${infer Inner})`
+        ? EmbedErrors<Rel, Trim<Head>, Inner>
+        : ErrorMessages<ColumnField<Row, Field>>;
+
+type ErrorMessages<Parsed> = {
+    [K in keyof Parsed]: Parsed[K] extends SelectQueryError<infer Message> ? Message : never;
+}[keyof Parsed];
+
+type EmbedErrors<Rel, Head extends string, Inner extends string> = [ContextSchema<Rel>] extends [never]
+    ? never
+    : EmbedTarget<Head extends `...${infer Spread}` ? Spread : Head extends `${string}:${infer Target}` ? Target : Head> extends [
+            infer Target extends string,
+            boolean,
+        ]
+      ? EmbeddedRelation<ContextSchema<Rel>, ContextName<Rel>, Target> extends infer Related extends string
+          ? [Related] extends [never]
+              ? `relation '${Target}' does not exist`
+              : SelectErrors<RowOf<ContextSchema<Rel>, Related>, EmbeddedContext<ContextSchema<Rel>, Related>, SplitFields<Inner>>
+          : never
+      : never;
+
+/**
+ * The select string itself when it is valid, otherwise the error message,
+ * so passing an invalid string to select() fails to compile
+ */
+export type ValidSelect<Row, Query extends string, Rel = unknown> = string extends Query
+    ? Query
+    : [SelectErrors<Row, Rel, SplitFields<Query>>] extends [never]
+      ? Query
+      : SelectErrors<Row, Rel, SplitFields<Query>>;
+
+/**
+ * Row type after adding an aggregate field with a builder helper. Rows that
+ * were never narrowed by select() contribute no columns: the aggregate is
+ * then computed over all matching rows.
+ */
+export type WithAggregate<Row, Result, Name extends string, Value> = Simplify<
+    (Result extends (infer Selected)[]
+        ? [Selected] extends [Row]
+            ? [Row] extends [Selected]
+                ? unknown
+                : Selected
+            : Selected
+        : unknown) & { [K in Name]: Value }
+>[];
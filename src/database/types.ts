@@ -2,6 +2,11 @@
  * Database module type definitions
  */
 
+import type { QueryCache } from '../lib/cache';
+import type { RetryOptions } from '../lib/retry';
+import type { RealtimeChannel } from '../realtime/RealtimeChannel';
+import type { AeroDBError } from '../types';
+
 /**
  * Filter operators for query building
  */
@@ -15,7 +20,19 @@ export type FilterOperator =
     | 'like'
     | 'ilike'
     | 'in'
-    | 'is';
+    | 'is'
+    | 'fts'
+    | 'plfts'
+    | 'phfts'
+    | 'wfts'
+    | 'cs'
+    | 'cd'
+    | 'ov'
+    | 'sl'
+    | 'sr'
+    | 'nxl'
+    | 'nxr'
+    | 'adj';
 
 /**
  * Filter definition
@@ -24,6 +41,95 @@ export interface Filter {
     field: string;
     operator: FilterOperator;
     value: unknown;
+    negate?: boolean;
+    /** Embedded resource the filter applies to */
+    referencedTable?: string;
+    /** Text search configuration for the full-text operators (`fts(english)`) */
+    config?: string;
+}
+
+/**
+ * Logic operators for combining filters
+ */
+export type LogicOperator = 'and' | 'or';
+
+/**
+ * Group of filters combined with AND / OR.
+ * `filters` is either a list of nested nodes or a raw PostgREST logic string.
+ */
+export interface FilterGroup {
+    logic: LogicOperator;
+    filters: FilterNode[] | string;
+    negate?: boolean;
+    /** Embedded resource the group applies to */
+    referencedTable?: string;
+}
+
+/**
+ * A single filter or a nested logic group
+ */
+export type FilterNode = Filter | FilterGroup;
+
+/**
+ * Column a filter can target: a column of the row type, a JSON path into
+ * one (`metadata->>plan`), or a `table.column` path into an embedded resource
+ */
+export type FilterColumn<T> = (keyof T & string) | `${keyof T & string}->${string}` | `${string}.${string}`;
+
+/**
+ * Value type of a filter column (unknown for JSON and embedded resource paths)
+ */
+export type FilterValue<T, K> = K extends keyof T ? T[K] : unknown;
+
+/**
+ * Value accepted by contains() / containedBy(): an array, a range or
+ * array literal string, or a JSONB object
+ */
+export type ContainmentValue = string | readonly unknown[] | Record<string, unknown>;
+
+/**
+ * Apply a filter, order or pagination to an embedded resource instead of
+ * the top-level rows
+ */
+export interface ReferencedTableOptions {
+    referencedTable?: string;
+}
+
+/**
+ * Options for textSearch()
+ */
+export interface TextSearchOptions extends ReferencedTableOptions {
+    /**
+     * How the query text is parsed: `to_tsquery` syntax when omitted,
+     * `plainto_tsquery`, `phraseto_tsquery` or `websearch_to_tsquery` otherwise
+     */
+    type?: 'plain' | 'phrase' | 'websearch';
+    /** Text search configuration, e.g. `english` */
+    config?: string;
+}
+
+/**
+ * Options for the aggregate helpers (count(), sum(), avg(), min(), max())
+ */
+export interface AggregateOptions<Alias extends string = string> {
+    /** Name of the result field (defaults to the function name) */
+    as?: Alias;
+}
+
+/**
+ * Columns of T that sum() and avg() accept: numeric columns, or any column
+ * when the row type is untyped
+ */
+export type NumericColumn<T> = {
+    [K in keyof T]-?: unknown extends T[K] ? K : NonNullable<T[K]> extends number | bigint ? K : never;
+}[keyof T] &
+    string;
+
+/**
+ * Options for or() / and() groups
+ */
+export interface LogicGroupOptions extends ReferencedTableOptions {
+    negate?: boolean;
 }
 
 /**
@@ -33,23 +139,508 @@ export interface OrderBy {
     field: string;
     ascending: boolean;
     nullsFirst?: boolean;
+    /** Embedded resource whose rows are ordered */
+    referencedTable?: string;
+}
+
+/**
+ * Column of a keyset: a column name (ascending) or a column with its direction
+ */
+export type KeysetColumn<T> = (keyof T & string) | { column: keyof T & string; ascending?: boolean };
+
+/**
+ * Options for live()
+ */
+export interface LiveOptions {
+    /** Column(s) identifying a row in change events (default: 'id') */
+    primaryKey?: string | string[];
+}
+
+/**
+ * Handle returned by live()
+ */
+export interface LiveSubscription {
+    /** Stop listening; the callback is not called again */
+    unsubscribe(): void;
 }
 
 /**
- * Insert/upsert options
+ * Options for paginate()
+ */
+export interface PaginateOptions<T> {
+    /**
+     * Columns the pages are ordered by. Together they must be unique and
+     * non-null, e.g. `['created_at', 'id']`.
+     */
+    orderBy: KeysetColumn<T> | KeysetColumn<T>[];
+    pageSize: number;
+    /** Resume after this row (the last row of a previous page) */
+    after?: Partial<T>;
+}
+
+/**
+ * GeoJSON feature returned by geojson() queries
+ */
+export interface GeoJsonFeature<Properties = Record<string, unknown>> {
+    type: 'Feature';
+    geometry: { type: string; coordinates?: unknown; geometries?: unknown[] } | null;
+    properties: Properties | null;
+    id?: string | number;
+}
+
+/**
+ * GeoJSON feature collection returned by geojson() queries
+ */
+export interface GeoJsonFeatureCollection<Properties = Record<string, unknown>> {
+    type: 'FeatureCollection';
+    features: GeoJsonFeature<Properties>[];
+}
+
+/**
+ * Options for transaction()
+ */
+export interface TransactionOptions {
+    /** Run every operation, then roll back (`Prefer: tx=rollback`) */
+    dryRun?: boolean;
+}
+
+/**
+ * Request queued inside a transaction, sent to the batch endpoint (see
+ * "Batch endpoint" in docs/API_REFERENCE.md)
+ */
+export interface BatchOperation {
+    method: string;
+    /** Path below `/rest/v1`, including the query string */
+    path: string;
+    headers: Record<string, string>;
+    body?: unknown;
+}
+
+/**
+ * Outcome of one queued operation, in queue order
+ */
+export interface BatchResult<T = unknown> {
+    status: number;
+    data: T | null;
+}
+
+/**
+ * Options for explain()
+ */
+export interface ExplainOptions {
+    /** Run the query and report actual times and row counts */
+    analyze?: boolean;
+    /** Include output columns and other extra detail */
+    verbose?: boolean;
+    /** Include buffer usage (with `analyze`) */
+    buffers?: boolean;
+    /** Plan as text (default) or as JSON */
+    format?: 'text' | 'json';
+}
+
+/**
+ * Node of a JSON query plan
+ */
+export interface QueryPlanNode {
+    'Node Type': string;
+    'Startup Cost': number;
+    'Total Cost': number;
+    'Plan Rows': number;
+    'Plan Width': number;
+    'Relation Name'?: string;
+    'Actual Startup Time'?: number;
+    'Actual Total Time'?: number;
+    'Actual Rows'?: number;
+    'Actual Loops'?: number;
+    Plans?: QueryPlanNode[];
+    [key: string]: unknown;
+}
+
+/**
+ * JSON query plan returned by explain({ format: 'json' })
+ */
+export interface QueryPlan {
+    Plan: QueryPlanNode;
+    'Planning Time'?: number;
+    'Execution Time'?: number;
+    [key: string]: unknown;
+}
+
+/**
+ * Options for stream()
+ */
+export interface StreamOptions {
+    /** Abort the request and end iteration */
+    signal?: AbortSignal;
+}
+
+/**
+ * Options for pages()
+ */
+export interface PagesOptions {
+    /** Rows per page when paginate() was not called (default: 1000) */
+    pageSize?: number;
+}
+
+/**
+ * Options for order()
+ */
+export interface OrderOptions extends ReferencedTableOptions {
+    ascending?: boolean;
+    nullsFirst?: boolean;
+}
+
+/**
+ * Row count algorithm requested through the Prefer header
+ */
+export type CountOption = 'exact' | 'planned' | 'estimated';
+
+/**
+ * Select options
+ */
+export interface SelectOptions {
+    /** Count matching rows; the total is returned as `count` */
+    count?: CountOption;
+    /** Only return the count, without fetching any rows (HEAD request) */
+    head?: boolean;
+}
+
+/**
+ * Options for rpc() calls
+ */
+export interface RpcOptions {
+    /** Only return the count, without fetching any rows (HEAD request) */
+    head?: boolean;
+    /** Count rows returned by a set-returning function */
+    count?: CountOption;
+    /** Call the function with GET (read-only functions); arguments go in the query string */
+    get?: boolean;
+}
+
+/**
+ * Function call carried by a QueryBuilder created with rpc()
+ */
+export interface RpcCall extends RpcOptions {
+    args: Record<string, unknown>;
+}
+
+/**
+ * Internal options passed to QueryBuilder by the clients that create it
+ */
+export interface QueryBuilderOptions {
+    rpc?: RpcCall;
+    /** Refuse update() / delete() without filters unless allRows() is called (default: true) */
+    safeMutations?: boolean;
+    /** Cache for read results, invalidated by this client's writes */
+    cache?: QueryCache;
+    /** Realtime channel for a table, used by live() */
+    channel?: (name: string) => RealtimeChannel;
+    /** Requests are queued by transaction(), so responses carry no data until it commits */
+    transaction?: boolean;
+}
+
+/**
+ * PostgrestClient options
+ */
+export interface PostgrestClientOptions {
+    /** Refuse update() / delete() without filters unless allRows() is called (default: true) */
+    safeMutations?: boolean;
+    /** Cache for read results, invalidated by this client's writes */
+    cache?: QueryCache;
+    /** Realtime channel for a table, used by live() */
+    channel?: (name: string) => RealtimeChannel;
+    /** Set on the client passed to a transaction() callback */
+    transaction?: boolean;
+}
+
+/**
+ * Row type of an rpc() result, used to type filters on set-returning functions
+ */
+export type RpcRow<Result> = Result extends (infer Row)[] ? Row : Record<string, unknown>;
+
+/**
+ * Foreign key of a table or view in a Database type
+ */
+export interface GenericRelationship {
+    foreignKeyName: string;
+    columns: string[];
+    isOneToOne?: boolean;
+    referencedRelation: string;
+    referencedColumns: string[];
+}
+
+/**
+ * Table definition in a Database type
+ */
+export interface GenericTable {
+    Row: Record<string, any>;
+    Insert: Record<string, any>;
+    Update: Record<string, any>;
+    Relationships?: GenericRelationship[];
+}
+
+/**
+ * View definition in a Database type (Insert/Update only for updatable views)
+ */
+export interface GenericView {
+    Row: Record<string, any>;
+    Insert?: Record<string, any>;
+    Update?: Record<string, any>;
+    Relationships?: GenericRelationship[];
+}
+
+/**
+ * Function definition in a Database type
+ */
+export interface GenericFunction {
+    Args: Record<string, any>;
+    Returns: unknown;
+}
+
+/**
+ * Schema definition in a Database type
+ */
+export interface GenericSchema {
+    Tables: Record<string, GenericTable>;
+    Views: Record<string, GenericView>;
+    Functions: Record<string, GenericFunction>;
+}
+
+/**
+ * Database type: schemas by name. Used when no Database type is given,
+ * in which case any table name is accepted.
+ */
+export type GenericDatabase = Record<string, GenericSchema>;
+
+/**
+ * Schema of a Database type by name
+ */
+export type SchemaOf<Database, SchemaName extends keyof Database> =
+    Database[SchemaName] extends GenericSchema ? Database[SchemaName] : never;
+
+/**
+ * Table and view names of a schema
+ */
+export type RelationName<Schema extends GenericSchema> =
+    string & (keyof Schema['Tables'] | keyof Schema['Views']);
+
+/**
+ * Function names of a schema
+ */
+export type FunctionName<Schema extends GenericSchema> = string & keyof Schema['Functions'];
+
+/**
+ * Names accepted by typed calls: never when the schema is not typed
+ */
+export type KnownName<Names extends string> = string extends Names ? never : Names;
+
+/**
+ * Names accepted by untyped calls: any string when the schema is not typed,
+ * never otherwise, so unknown names fail to compile
+ */
+export type UntypedName<Names extends string> = string extends Names ? string : never;
+
+/**
+ * Row type of a table or view
+ */
+export type RelationRow<Schema extends GenericSchema, Name extends RelationName<Schema>> =
+    Name extends keyof Schema['Tables']
+        ? Schema['Tables'][Name]['Row']
+        : Name extends keyof Schema['Views']
+          ? Schema['Views'][Name]['Row']
+          : never;
+
+/**
+ * Relation a QueryBuilder targets: insert and update payload shapes, plus
+ * the schema and name used to type embedded resources when known
+ */
+export interface RelationShape {
+    Insert: unknown;
+    Update: unknown;
+    Schema?: GenericSchema;
+    Name?: string;
+}
+
+/**
+ * Payload shapes used when only the row type is known
+ */
+export interface DefaultRelationShape<T> extends RelationShape {
+    Insert: Partial<T>;
+    Update: Partial<T>;
+}
+
+/**
+ * Payload shapes of a table or view; views without them are read-only
+ */
+export type RelationShapeOf<Schema extends GenericSchema, Name extends RelationName<Schema>> =
+    Name extends keyof Schema['Tables']
+        ? {
+              Insert: Schema['Tables'][Name]['Insert'];
+              Update: Schema['Tables'][Name]['Update'];
+              Schema: Schema;
+              Name: Name;
+          }
+        : Name extends keyof Schema['Views']
+          ? {
+                Insert: Schema['Views'][Name] extends { Insert: infer I } ? I : never;
+                Update: Schema['Views'][Name] extends { Update: infer U } ? U : never;
+                Schema: Schema;
+                Name: Name;
+            }
+          : never;
+
+/**
+ * Insert options
  */
 export interface InsertOptions {
-    onConflict?: string;
+    /** Return the written rows (default) or nothing */
     returning?: 'minimal' | 'representation';
-    count?: 'exact' | 'planned' | 'estimated';
+    count?: CountOption;
+    /**
+     * Fill columns missing from the payload with NULL (default: true).
+     * When false, missing columns take their column default instead.
+     */
+    defaultToNull?: boolean;
+}
+
+/**
+ * Upsert options
+ */
+export interface UpsertOptions extends InsertOptions {
+    /** Column(s) of the unique constraint used to detect conflicts */
+    onConflict?: string | string[];
+    /** Skip conflicting rows instead of merging them (default: false) */
+    ignoreDuplicates?: boolean;
+}
+
+/**
+ * Chunking options for insertMany() / upsertMany()
+ */
+export interface BulkWriteOptions {
+    /** Rows sent per request (default: 500) */
+    chunkSize?: number;
+    /** Chunk requests in flight at once (default: 4) */
+    concurrency?: number;
+    /**
+     * Retry settings for failed chunks, or false to send each chunk once.
+     * Defaults to withRetry()'s: 3 attempts on network errors and
+     * 408 / 429 / 5xx responses.
+     */
+    retry?: RetryOptions | false;
+    /** Called each time a chunk succeeds or gives up */
+    onProgress?: (progress: BulkWriteProgress) => void;
+}
+
+/**
+ * insertMany() options
+ */
+export interface BulkInsertOptions extends InsertOptions, BulkWriteOptions {}
+
+/**
+ * upsertMany() options
+ */
+export interface BulkUpsertOptions extends UpsertOptions, BulkWriteOptions {}
+
+/**
+ * Progress reported by insertMany() / upsertMany()
+ */
+export interface BulkWriteProgress {
+    completedChunks: number;
+    totalChunks: number;
+    /** Rows in chunks that succeeded so far */
+    writtenRows: number;
+    /** Rows in chunks that failed so far */
+    failedRows: number;
+    totalRows: number;
+}
+
+/**
+ * A chunk that still failed after its retries
+ */
+export interface BulkChunkFailure<Row = unknown> {
+    /** Position of the chunk, starting at 0 */
+    chunk: number;
+    /** Index of the chunk's first row in the input */
+    from: number;
+    /** Index of the chunk's last row in the input (inclusive) */
+    to: number;
+    /** The chunk's rows, e.g. to retry or report them */
+    rows: Row[];
+    /** Error of the last attempt */
+    error: AeroDBError;
+    attempts: number;
+}
+
+/**
+ * Outcome of insertMany() / upsertMany()
+ */
+export interface BulkWriteResult<T, Row = unknown> {
+    /** Written rows in input order (empty with `returning: 'minimal'`) */
+    rows: T[];
+    writtenRows: number;
+    totalRows: number;
+    totalChunks: number;
+    /** Failed chunks in input order */
+    failures: BulkChunkFailure<Row>[];
 }
 
 /**
  * Update options
  */
-export interface UpdateOptions {
+export interface UpdateOptions<T = Record<string, unknown>, Update = Partial<T>> {
     returning?: 'minimal' | 'representation';
-    count?: 'exact' | 'planned' | 'estimated';
+    count?: CountOption;
+    /** Fail with a `CONFLICT` error instead of overwriting concurrent edits */
+    concurrency?: ConcurrencyOptions<T, Update>;
+}
+
+/**
+ * Optimistic concurrency check for update()
+ *
+ * Give either a version column and the value last read from it, or the
+ * ETag of the row as last read (sent as `If-Match`).
+ */
+export type ConcurrencyOptions<T = Record<string, unknown>, Update = Partial<T>> =
+    (VersionCheck<T> | EtagCheck) & ConflictRetryOptions<T, Update>;
+
+/**
+ * Only update while `column` still holds `expected` (e.g. `version` or
+ * `updated_at`; `null` for a column never set). A numeric version not set
+ * by the payload is incremented, and always is on a merge retry.
+ */
+export type VersionCheck<T> = {
+    [K in keyof T & string]: { column: K; expected: T[K]; etag?: never };
+}[keyof T & string];
+
+/**
+ * Only update while the row still matches `etag`
+ */
+export interface EtagCheck {
+    etag: string;
+    column?: never;
+    expected?: never;
+}
+
+/**
+ * How update() recovers from a conflict
+ */
+export interface ConflictRetryOptions<T, Update> {
+    /**
+     * Called with the current server row on conflict. Return the payload to
+     * retry with against that row, or null to give up with the conflict.
+     */
+    merge?: (current: T, attempted: Update) => Update | null | undefined | Promise<Update | null | undefined>;
+    /** Merge attempts before giving up (default: 3) */
+    maxRetries?: number;
+}
+
+/**
+ * Error returned by update() when the row changed since it was read
+ */
+export interface ConflictError<T = Record<string, unknown>> extends AeroDBError {
+    code: 'CONFLICT';
+    /** The row as it is on the server now, or null if it no longer exists */
+    current: T | null;
 }
 
 /**
@@ -57,5 +648,5 @@ export interface UpdateOptions {
  */
 export interface DeleteOptions {
     returning?: 'minimal' | 'representation';
-    count?: 'exact' | 'planned' | 'estimated';
+    count?: CountOption;
 }
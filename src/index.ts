@@ -54,8 +54,73 @@ export type {
 
 // Database
 export { PostgrestClient } from './database/PostgrestClient';
-export { QueryBuilder } from './database/QueryBuilder';
-export type { FilterOperator, Filter, OrderBy } from './database/types';
+export { QueryBuilder, isConflictError } from './database/QueryBuilder';
+export { FilterBuilder } from './database/FilterBuilder';
+export type { FilterGroupCallback } from './database/FilterBuilder';
+export type {
+    SelectResult,
+    ValidSelect,
+    SelectQueryError,
+    AggregateFunction,
+    WithAggregate,
+} from './database/select';
+export type {
+    FilterOperator,
+    Filter,
+    FilterGroup,
+    FilterNode,
+    LogicOperator,
+    OrderBy,
+    OrderOptions,
+    ReferencedTableOptions,
+    LogicGroupOptions,
+    TextSearchOptions,
+    ContainmentValue,
+    AggregateOptions,
+    NumericColumn,
+    KeysetColumn,
+    PaginateOptions,
+    PagesOptions,
+    StreamOptions,
+    GeoJsonFeature,
+    GeoJsonFeatureCollection,
+    ExplainOptions,
+    QueryPlan,
+    QueryPlanNode,
+    TransactionOptions,
+    PostgrestClientOptions,
+    LiveOptions,
+    LiveSubscription,
+    BatchOperation,
+    BatchResult,
+    FilterColumn,
+    CountOption,
+    SelectOptions,
+    InsertOptions,
+    UpsertOptions,
+    BulkWriteOptions,
+    BulkInsertOptions,
+    BulkUpsertOptions,
+    BulkWriteProgress,
+    BulkChunkFailure,
+    BulkWriteResult,
+    UpdateOptions,
+    ConcurrencyOptions,
+    VersionCheck,
+    EtagCheck,
+    ConflictRetryOptions,
+    ConflictError,
+    DeleteOptions,
+    RpcOptions,
+    RpcRow,
+    GenericRelationship,
+    GenericTable,
+    GenericView,
+    GenericFunction,
+    GenericSchema,
+    GenericDatabase,
+    RelationShape,
+} from './database/types';
 
 // Realtime
 export { RealtimeClient } from './realtime/RealtimeClient';
@@ -87,9 +152,17 @@ export type {
     FunctionInvokeOptions,
 } from './types';
 
+// Cache
+export { QueryCache, MemoryCacheAdapter } from './lib/cache';
+export type { CacheAdapter, CacheEntry, CacheOptions } from './lib/cache';
+
 // Helpers (for advanced use)
 export type { StorageAdapter } from './lib/helpers';
 
 // Utilities
 export { withRetry, retryable, Retry } from './lib/retry';
 export type { RetryOptions } from './lib/retry';
+
+// Type generation
+export { generateTypes } from './typegen/generateTypes';
+export type { OpenApiDocument, GenerateTypesOptions } from './typegen/types';
@@ -0,0 +1,249 @@
+/**
+ * Query result cache with stale-while-revalidate
+ *
+ * Responses are stored through a pluggable adapter (memory by default) and
+ * tagged with the tables they read, so writes can invalidate them.
+ */
+
+import type { AeroDBResponse } from '../types';
+
+/**
+ * A cached response and the tables it was read from
+ */
+export interface CacheEntry {
+    response: AeroDBResponse<unknown>;
+    /** When the response was stored (ms since epoch) */
+    storedAt: number;
+    /**
+     * Tables the response depends on, as `schema.table`, or `schema.*` when
+     * it may read any table of the schema
+     */
+    tags: string[];
+    /** SHA-256 of the identity the response was loaded as, null when anonymous */
+    identity: string | null;
+}
+
+/**
+ * Cache storage backend
+ *
+ * Methods are async so the cache can be backed by IndexedDB or another
+ * asynchronous store. Entries must be returned as stored; QueryCache never
+ * hands them out directly, only copies (`structuredClone`), so they are not
+ * changed after being set.
+ */
+export interface CacheAdapter {
+    get(key: string): Promise<CacheEntry | undefined>;
+    set(key: string, entry: CacheEntry): Promise<void>;
+    delete(key: string): Promise<void>;
+    /** Remove every entry tagged with `tag` */
+    invalidate(tag: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+/**
+ * Cache configuration
+ */
+export interface CacheOptions {
+    /** Storage backend (default: a MemoryCacheAdapter) */
+    adapter?: CacheAdapter;
+    /** How long a response is served without a request, in ms (default: 30000) */
+    ttl?: number;
+    /**
+     * How long after `ttl` a stale response is still served while it is
+     * refreshed in the background, in ms (default: 0)
+     */
+    staleWhileRevalidate?: number;
+}
+
+const DEFAULT_TTL = 30_000;
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * In-memory adapter, evicting the least recently used entries beyond
+ * `maxEntries`
+ */
+export class MemoryCacheAdapter implements CacheAdapter {
+    private entries = new Map<string, CacheEntry>();
+
+    constructor(private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        const entry = this.entries.get(key);
+        if (entry) {
+            // Re-insert to mark as recently used
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    async set(key: string, entry: CacheEntry): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value as string);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async invalidate(tag: string): Promise<void> {
+        for (const [key, entry] of this.entries) {
+            if (entry.tags.includes(tag)) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+}
+
+/**
+ * Request for a response that is being loaded
+ */
+interface PendingLoad {
+    promise: Promise<AeroDBResponse<unknown>>;
+    tags: string[];
+    /** Set when a table it reads was written meanwhile: don't store the result */
+    invalidated: boolean;
+}
+
+/**
+ * Serves query responses from the adapter while fresh, and shares one
+ * request between identical queries running at the same time
+ */
+export class QueryCache {
+    private adapter: CacheAdapter;
+    private ttl: number;
+    private staleWhileRevalidate: number;
+    private pending = new Map<string, PendingLoad>();
+    private currentIdentity: string | null | undefined;
+    private hashed?: { identity: string; digest: string };
+
+    /**
+     * @param identity - Who requests are made as (the access token). With
+     *   row-level security the same query returns different rows per user,
+     *   so entries stored as someone else are misses, and the cache is
+     *   cleared when this changes while the client runs. Only a hash of it
+     *   is stored.
+     */
+    constructor(options: CacheOptions = {}, private readonly identity: () => string | null = () => null) {
+        this.adapter = options.adapter ?? new MemoryCacheAdapter();
+        this.ttl = options.ttl ?? DEFAULT_TTL;
+        this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+    }
+
+    /**
+     * Cached response for `key`, calling `load` when there is none or it
+     * has expired. Only successful responses are stored. Every call gets
+     * its own copy, so callers may modify the result.
+     */
+    async fetch<T>(
+        key: string,
+        tags: string[],
+        load: () => Promise<AeroDBResponse<T>>
+    ): Promise<AeroDBResponse<T>> {
+        const identity = await this.hashIdentity();
+        if (this.currentIdentity !== undefined && identity !== this.currentIdentity) {
+            // Signed in, out or as someone else: entries hold the previous user's rows
+            await this.clear();
+        }
+        this.currentIdentity = identity;
+
+        const entry = await this.adapter.get(key);
+        if (entry && entry.identity === identity) {
+            const age = Date.now() - entry.storedAt;
+            if (age < this.ttl) {
+                return structuredClone(entry.response) as AeroDBResponse<T>;
+            }
+            if (age < this.ttl + this.staleWhileRevalidate) {
+                // Background refresh: errors keep the stale entry until it expires
+                this.load(key, tags, identity, load).catch(() => undefined);
+                return structuredClone(entry.response) as AeroDBResponse<T>;
+            }
+        }
+        if (entry) {
+            await this.adapter.delete(key);
+        }
+        return structuredClone(await this.load(key, tags, identity, load));
+    }
+
+    /**
+     * Drop cached responses that read `tag` (`schema.table`), or any table
+     * of its schema, including ones still loading
+     */
+    async invalidate(tag: string): Promise<void> {
+        const tags = [tag, `${tag.slice(0, tag.indexOf('.'))}.*`];
+        for (const [key, pending] of this.pending) {
+            if (pending.tags.some((pendingTag) => tags.includes(pendingTag))) {
+                pending.invalidated = true;
+                this.pending.delete(key);
+            }
+        }
+        for (const each of tags) {
+            await this.adapter.invalidate(each);
+        }
+    }
+
+    /**
+     * Drop every cached response
+     */
+    async clear(): Promise<void> {
+        for (const pending of this.pending.values()) {
+            pending.invalidated = true;
+        }
+        this.pending.clear();
+        await this.adapter.clear();
+    }
+
+    /**
+     * SHA-256 of the current identity, as hex
+     */
+    private async hashIdentity(): Promise<string | null> {
+        const identity = this.identity();
+        if (identity === null) {
+            return null;
+        }
+        if (this.hashed?.identity !== identity) {
+            const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(identity));
+            this.hashed = {
+                identity,
+                digest: [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join(''),
+            };
+        }
+        return this.hashed.digest;
+    }
+
+    private load<T>(
+        key: string,
+        tags: string[],
+        identity: string | null,
+        load: () => Promise<AeroDBResponse<T>>
+    ): Promise<AeroDBResponse<T>> {
+        const existing = this.pending.get(key);
+        if (existing) {
+            return existing.promise as Promise<AeroDBResponse<T>>;
+        }
+
+        const pending = { tags, invalidated: false } as PendingLoad;
+        pending.promise = load()
+            .then(async (response) => {
+                if (!response.error && !pending.invalidated) {
+                    await this.adapter.set(key, { response, storedAt: Date.now(), tags, identity });
+                }
+                return response;
+            })
+            .finally(() => {
+                if (this.pending.get(key) === pending) {
+                    this.pending.delete(key);
+                }
+            });
+        this.pending.set(key, pending);
+        return pending.promise as Promise<AeroDBResponse<T>>;
+    }
+}
@@ -8,12 +8,21 @@ import type { StorageAdapter } from './helpers';
 
 export interface FetchOptions extends RequestInit {
     headers?: Record<string, string>;
+    /**
+     * `stream` returns the unread response body as `data` for successful
+     * responses instead of parsing it (default: `json`)
+     */
+    responseType?: 'json' | 'stream';
 }
 
 export interface FetchResult<T> {
     data: T | null;
     error: AeroDBError | null;
     status: number;
+    /** Total row count from the Content-Range header, if the server sent one */
+    count: number | null;
+    /** ETag header of the response, if the server sent one */
+    etag?: string | null;
 }
 
 /**
@@ -51,23 +60,33 @@ export function createFetch(
             headers['Authorization'] = `Bearer ${accessToken}`;
         }
 
+        const { responseType = 'json', ...init } = options;
+
         try {
             const response = await fetch(url, {
-                ...options,
+                ...init,
                 headers,
             });
 
-            // Handle no-content responses
-            if (response.status === 204) {
-                return { data: null, error: null, status: response.status };
+            const count = parseContentRangeCount(response.headers.get('content-range'));
+            const etag = response.headers.get('etag');
+
+            // Handle no-content responses (HEAD responses never carry a body)
+            if (response.status === 204 || (options.method === 'HEAD' && response.ok)) {
+                return { data: null, error: null, status: response.status, count, etag };
+            }
+
+            if (responseType === 'stream' && response.ok) {
+                return { data: response.body as T | null, error: null, status: response.status, count, etag };
             }
 
             // Try to parse JSON
             let data: T | null = null;
             let error: AeroDBError | null = null;
 
+            // JSON, including vendor types such as application/vnd.pgrst.object+json
             const contentType = response.headers.get('content-type');
-            if (contentType?.includes('application/json')) {
+            if (contentType && /[/+]json\b/.test(contentType)) {
                 const json = await response.json();
 
                 if (!response.ok) {
@@ -86,9 +105,13 @@ export function createFetch(
                     message: text || 'Request failed',
                     status: response.status,
                 };
+            } else {
+                // Other formats (CSV, plain text, ...) are returned as text
+                const text = await response.text();
+                data = text === '' ? null : (text as T);
             }
 
-            return { data, error, status: response.status };
+            return { data, error, status: response.status, count, etag };
         } catch (err) {
             // Network error
             return {
@@ -98,9 +121,26 @@ export function createFetch(
                     code: 'NETWORK_ERROR',
                 },
                 status: 0,
+                count: null,
             };
         }
     };
 }
 
+/**
+ * Extract the total from a Content-Range header (e.g. `0-24/3573`).
+ * Returns null when the header is missing or the total is unknown (`0-24/*`).
+ */
+function parseContentRangeCount(contentRange: string | null): number | null {
+    if (!contentRange) {
+        return null;
+    }
+    const total = contentRange.split('/')[1];
+    if (!total || total === '*') {
+        return null;
+    }
+    const count = parseInt(total, 10);
+    return Number.isNaN(count) ? null : count;
+}
+
 export type AeroFetch = ReturnType<typeof createFetch>;
@@ -0,0 +1,158 @@
+/**
+ * Incremental decoding of streamed responses
+ */
+
+/**
+ * Parse a JSON array from a byte stream, yielding each element as soon as
+ * it is complete
+ *
+ * Only the element being read is held in memory. Chunks are read as the
+ * consumer asks for elements, so a slow consumer slows the download
+ * (backpressure). Aborting `signal` or leaving the loop early cancels the
+ * underlying stream.
+ *
+ * @throws Error when the body is not a JSON array or ends early
+ */
+export async function* parseJsonArray<T = unknown>(
+    body: ReadableStream<Uint8Array>,
+    signal?: AbortSignal
+): AsyncGenerator<T, void, undefined> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    const cancel = () => {
+        reader.cancel().catch(() => undefined);
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    let started = false;
+    let ended = false;
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let pending = '';
+
+    try {
+        while (!ended) {
+            if (signal?.aborted) {
+                return;
+            }
+            const { value, done } = await reader.read();
+            if (signal?.aborted) {
+                return;
+            }
+            if (done) {
+                throw new Error('Unexpected end of JSON array');
+            }
+
+            const text = decoder.decode(value, { stream: true });
+            const elements: string[] = [];
+            let start = 0;
+
+            for (let i = 0; i < text.length && !ended; i++) {
+                const ch = text[i];
+
+                if (!started) {
+                    if (/\s/.test(ch)) {
+                        continue;
+                    }
+                    if (ch !== '[') {
+                        throw new Error('Expected a JSON array');
+                    }
+                    started = true;
+                    depth = 1;
+                    start = i + 1;
+                    continue;
+                }
+
+                if (inString) {
+                    if (escaped) {
+                        escaped = false;
+                    } else if (ch === '\\') {
+                        escaped = true;
+                    } else if (ch === '"') {
+                        inString = false;
+                    }
+                    continue;
+                }
+
+                if (ch === '"') {
+                    inString = true;
+                } else if (ch === '{' || ch === '[') {
+                    depth++;
+                } else if (ch === '}' || ch === ']') {
+                    depth--;
+                    if (depth === 0) {
+                        elements.push(pending + text.slice(start, i));
+                        pending = '';
+                        ended = true;
+                    }
+                } else if (ch === ',' && depth === 1) {
+                    elements.push(pending + text.slice(start, i));
+                    pending = '';
+                    start = i + 1;
+                }
+            }
+
+            if (started && !ended) {
+                pending += text.slice(start);
+            }
+
+            for (const element of elements) {
+                // `[]` closes with nothing in front of the bracket
+                if (element.trim() !== '') {
+                    yield JSON.parse(element) as T;
+                }
+            }
+        }
+    } finally {
+        signal?.removeEventListener('abort', cancel);
+        if (!ended) {
+            cancel();
+        }
+    }
+}
+
+/**
+ * Decode a byte stream to text chunks as they arrive
+ *
+ * Same backpressure and cancellation behaviour as parseJsonArray().
+ * Chunk boundaries are arbitrary: a chunk may end mid-line.
+ */
+export async function* decodeText(
+    body: ReadableStream<Uint8Array>,
+    signal?: AbortSignal
+): AsyncGenerator<string, void, undefined> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    const cancel = () => {
+        reader.cancel().catch(() => undefined);
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    let finished = false;
+    try {
+        while (!signal?.aborted) {
+            const { value, done } = await reader.read();
+            if (done) {
+                finished = true;
+                const rest = decoder.decode();
+                if (rest) {
+                    yield rest;
+                }
+                return;
+            }
+            if (signal?.aborted) {
+                return;
+            }
+            const text = decoder.decode(value, { stream: true });
+            if (text) {
+                yield text;
+            }
+        }
+    } finally {
+        signal?.removeEventListener('abort', cancel);
+        if (!finished) {
+            cancel();
+        }
+    }
+}
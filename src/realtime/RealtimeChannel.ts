@@ -40,6 +40,13 @@ export class RealtimeChannel {
         return this.subscribed;
     }
 
+    /**
+     * Check if any event handlers are registered
+     */
+    hasHandlers(): boolean {
+        return Array.from(this.handlers.values()).some((handlers) => handlers.size > 0);
+    }
+
     /**
      * Register an event handler
      */
@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+/**
+ * aerodb-gen-types executable entry point
+ */
+
+import { run } from './cli';
+
+run(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+});
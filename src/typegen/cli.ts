@@ -0,0 +1,154 @@
+/**
+ * aerodb-gen-types command
+ *
+ * Reads the PostgREST OpenAPI document of one or more schemas, from a running
+ * AeroDB instance or a local JSON file, and writes the Database type.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { generateTypes } from './generateTypes';
+import type { OpenApiDocument } from './types';
+
+const USAGE = `Usage: aerodb-gen-types (--url <url> | --file <openapi.json>) [options]
+
+Options:
+  --url <url>        AeroDB base URL; the OpenAPI document is read from <url>/rest/v1/
+  --file <path>      Read the OpenAPI document from a local JSON file instead
+  --key <key>        API key sent with --url (default: $AERODB_KEY)
+  --schema <name>    Schema to generate, repeatable with --url (default: public)
+  -o, --output <path>
+                     Write to this file instead of stdout
+  -h, --help         Show this message
+`;
+
+/**
+ * Options that take a value
+ */
+const VALUE_FLAGS = new Set(['--url', '--file', '--key', '--schema', '--output', '-o']);
+
+/**
+ * Parsed command line options
+ */
+export interface GenTypesArgs {
+    url?: string;
+    file?: string;
+    key?: string;
+    schemas: string[];
+    output?: string;
+    help: boolean;
+}
+
+/**
+ * Parse command line arguments
+ *
+ * @throws Error on unknown flags or missing values
+ */
+export function parseArgs(argv: string[]): GenTypesArgs {
+    const args: GenTypesArgs = { schemas: [], help: false };
+
+    for (let i = 0; i < argv.length; i++) {
+        const flag = argv[i];
+        if (flag === '--help' || flag === '-h') {
+            args.help = true;
+            continue;
+        }
+
+        if (!VALUE_FLAGS.has(flag)) {
+            throw new Error(`Unknown option ${flag}`);
+        }
+        const value = argv[i + 1];
+        if (value === undefined || value.startsWith('--')) {
+            throw new Error(`Missing value for ${flag}`);
+        }
+        i++;
+
+        switch (flag) {
+            case '--url':
+                args.url = value.replace(/\/$/, '');
+                break;
+            case '--file':
+                args.file = value;
+                break;
+            case '--key':
+                args.key = value;
+                break;
+            case '--schema':
+                args.schemas.push(value);
+                break;
+            case '--output':
+            case '-o':
+                args.output = value;
+                break;
+        }
+    }
+
+    if (args.schemas.length === 0) {
+        args.schemas.push('public');
+    }
+
+    return args;
+}
+
+/**
+ * Load the OpenAPI document of each requested schema
+ */
+export async function loadDocuments(args: GenTypesArgs): Promise<Record<string, OpenApiDocument>> {
+    if (args.file) {
+        if (args.schemas.length > 1) {
+            throw new Error('--file describes a single schema; pass one --schema at most');
+        }
+        const document = JSON.parse(await readFile(args.file, 'utf8')) as OpenApiDocument;
+        return { [args.schemas[0]]: document };
+    }
+
+    if (!args.url) {
+        throw new Error('Either --url or --file is required');
+    }
+
+    const documents: Record<string, OpenApiDocument> = {};
+    for (const schema of args.schemas) {
+        const headers: Record<string, string> = {
+            Accept: 'application/openapi+json',
+            'Accept-Profile': schema,
+        };
+        if (args.key) {
+            headers['apikey'] = args.key;
+            headers['Authorization'] = `Bearer ${args.key}`;
+        }
+
+        const response = await fetch(`${args.url}/rest/v1/`, { headers });
+        if (!response.ok) {
+            throw new Error(`Failed to load schema "${schema}": ${response.status} ${await response.text()}`);
+        }
+        documents[schema] = (await response.json()) as OpenApiDocument;
+    }
+    return documents;
+}
+
+/**
+ * Run the command; resolves to the process exit code
+ */
+export async function run(
+    argv: string[],
+    env: Record<string, string | undefined> = process.env
+): Promise<number> {
+    try {
+        const args = parseArgs(argv);
+        if (args.help) {
+            process.stdout.write(USAGE);
+            return 0;
+        }
+        args.key ??= env.AERODB_KEY;
+
+        const source = generateTypes(await loadDocuments(args));
+        if (args.output) {
+            await writeFile(args.output, source, 'utf8');
+        } else {
+            process.stdout.write(source);
+        }
+        return 0;
+    } catch (err) {
+        process.stderr.write(`aerodb-gen-types: ${err instanceof Error ? err.message : String(err)}\n\n${USAGE}`);
+        return 1;
+    }
+}
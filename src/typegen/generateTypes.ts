@@ -0,0 +1,328 @@
+/**
+ * generateTypes - Database type declaration from PostgREST OpenAPI documents
+ *
+ * Produces the `Database` type consumed by `AeroDBClient<Database>`.
+ * Output is deterministic: relations, columns, functions and enums are
+ * sorted by name, so regenerating an unchanged schema yields identical text.
+ */
+
+import type {
+    GenerateTypesOptions,
+    OpenApiDefinition,
+    OpenApiDocument,
+    OpenApiProperty,
+} from './types';
+
+const DEFAULT_HEADER = [
+    '/**',
+    ' * Database types generated by aerodb-gen-types.',
+    ' * Do not edit by hand: regenerate after schema changes.',
+    ' */',
+].join('\n');
+
+const JSON_TYPE = [
+    'export type Json =',
+    '    | string',
+    '    | number',
+    '    | boolean',
+    '    | null',
+    '    | { [key: string]: Json | undefined }',
+    '    | Json[];',
+].join('\n');
+
+const EMPTY_SECTION = '{ [_ in never]: never }';
+
+const NUMBER_FORMATS = new Set([
+    'smallint',
+    'integer',
+    'bigint',
+    'numeric',
+    'real',
+    'double precision',
+]);
+
+const FK_PATTERN = /<fk table='([^']+)' column='([^']+)'\/>/;
+
+/**
+ * Column or argument collected from a definition
+ */
+interface Field {
+    name: string;
+    type: string;
+    nullable: boolean;
+    hasDefault: boolean;
+}
+
+/**
+ * Foreign key collected from column descriptions
+ */
+interface Relationship {
+    foreignKeyName: string;
+    column: string;
+    isOneToOne: boolean;
+    referencedRelation: string;
+    referencedColumn: string;
+}
+
+/**
+ * Generate the Database type declaration for one or more schemas
+ *
+ * @example
+ * ```typescript
+ * const source = generateTypes({ public: openApiDocument });
+ * ```
+ */
+export function generateTypes(
+    schemas: Record<string, OpenApiDocument>,
+    options: GenerateTypesOptions = {}
+): string {
+    const lines: string[] = [options.header ?? DEFAULT_HEADER, '', JSON_TYPE, '', 'export type Database = {'];
+
+    for (const schemaName of sortedKeys(schemas)) {
+        lines.push(...indent(generateSchema(schemaName, schemas[schemaName]), 1));
+    }
+
+    lines.push('};', '');
+    return lines.join('\n');
+}
+
+/**
+ * Generate the Tables / Views / Functions / Enums block of one schema
+ */
+function generateSchema(schemaName: string, document: OpenApiDocument): string[] {
+    const definitions = document.definitions ?? {};
+    const paths = document.paths ?? {};
+    const enums = new Map<string, string[]>();
+
+    const tables: string[] = [];
+    const views: string[] = [];
+
+    for (const name of sortedKeys(definitions)) {
+        const path = paths[`/${name}`] ?? {};
+        const isTable = Boolean(path.post || path.patch || path.delete);
+        const fields = collectFields(schemaName, name, definitions[name], enums);
+        const block = isTable
+            ? generateTable(name, fields, collectRelationships(name, definitions[name]))
+            : generateView(name, fields);
+        (isTable ? tables : views).push(...block);
+    }
+
+    const functions: string[] = [];
+    for (const path of sortedKeys(paths)) {
+        if (!path.startsWith('/rpc/')) {
+            continue;
+        }
+        const name = path.slice('/rpc/'.length);
+        const args = paths[path].post?.parameters?.find((p) => p.in === 'body')?.schema;
+        const fields = args ? collectFields(schemaName, name, args, enums) : [];
+        functions.push(...generateFunction(name, fields));
+    }
+
+    const enumLines: string[] = [];
+    for (const name of [...enums.keys()].sort()) {
+        const values = enums.get(name)!.map((value) => JSON.stringify(value)).join(' | ');
+        enumLines.push(`${propertyKey(name)}: ${values};`);
+    }
+
+    return [
+        `${propertyKey(schemaName)}: {`,
+        ...indent(section('Tables', tables), 1),
+        ...indent(section('Views', views), 1),
+        ...indent(section('Functions', functions), 1),
+        ...indent(section('Enums', enumLines), 1),
+        '};',
+    ];
+}
+
+/**
+ * Table: Row, Insert and Update shapes plus foreign key relationships
+ */
+function generateTable(name: string, fields: Field[], relationships: Relationship[]): string[] {
+    const relationshipLines = relationships.flatMap((rel) => [
+        '{',
+        `    foreignKeyName: ${JSON.stringify(rel.foreignKeyName)};`,
+        `    columns: [${JSON.stringify(rel.column)}];`,
+        `    isOneToOne: ${rel.isOneToOne};`,
+        `    referencedRelation: ${JSON.stringify(rel.referencedRelation)};`,
+        `    referencedColumns: [${JSON.stringify(rel.referencedColumn)}];`,
+        '},',
+    ]);
+
+    return [
+        `${propertyKey(name)}: {`,
+        ...indent(objectType('Row', fields.map((f) => rowField(f))), 1),
+        ...indent(objectType('Insert', fields.map((f) => insertField(f))), 1),
+        ...indent(objectType('Update', fields.map((f) => updateField(f))), 1),
+        ...indent(
+            relationshipLines.length > 0
+                ? ['Relationships: [', ...indent(relationshipLines, 1), '];']
+                : ['Relationships: [];'],
+            1
+        ),
+        '};',
+    ];
+}
+
+/**
+ * View: Row shape only
+ */
+function generateView(name: string, fields: Field[]): string[] {
+    return [
+        `${propertyKey(name)}: {`,
+        ...indent(objectType('Row', fields.map((f) => rowField(f))), 1),
+        '};',
+    ];
+}
+
+/**
+ * Function: argument shape. The OpenAPI document does not describe
+ * return types, so results are typed as `unknown`.
+ */
+function generateFunction(name: string, fields: Field[]): string[] {
+    const args = fields.length > 0
+        ? objectType('Args', fields.map((f) => insertField(f)))
+        : ['Args: Record<string, never>;'];
+
+    return [`${propertyKey(name)}: {`, ...indent(args, 1), '    Returns: unknown;', '};'];
+}
+
+/**
+ * Collect fields of a definition, registering enum types on the way
+ */
+function collectFields(
+    schemaName: string,
+    owner: string,
+    definition: OpenApiDefinition,
+    enums: Map<string, string[]>
+): Field[] {
+    const required = new Set(definition.required ?? []);
+    const properties = definition.properties ?? {};
+
+    return sortedKeys(properties).map((name) => ({
+        name,
+        type: columnType(schemaName, `${owner}_${name}`, properties[name], enums),
+        nullable: !required.has(name),
+        hasDefault: properties[name].default !== undefined,
+    }));
+}
+
+/**
+ * Collect foreign keys from `<fk table='…' column='…'/>` column notes
+ */
+function collectRelationships(table: string, definition: OpenApiDefinition): Relationship[] {
+    const properties = definition.properties ?? {};
+    const relationships: Relationship[] = [];
+
+    for (const column of sortedKeys(properties)) {
+        const description = properties[column].description ?? '';
+        const match = FK_PATTERN.exec(description);
+        if (match) {
+            relationships.push({
+                foreignKeyName: `${table}_${column}_fkey`,
+                column,
+                isOneToOne: description.includes('<pk/>'),
+                referencedRelation: match[1],
+                referencedColumn: match[2],
+            });
+        }
+    }
+
+    return relationships;
+}
+
+/**
+ * Map a column's OpenAPI property to a TypeScript type
+ */
+function columnType(
+    schemaName: string,
+    fallbackEnumName: string,
+    property: OpenApiProperty,
+    enums: Map<string, string[]>
+): string {
+    if (property.enum) {
+        const enumName = property.format
+            ? property.format.replace(/\[\]$/, '').split('.').pop()!
+            : fallbackEnumName;
+        enums.set(enumName, [...property.enum]);
+        return `Database[${JSON.stringify(schemaName)}]["Enums"][${JSON.stringify(enumName)}]`;
+    }
+
+    if (property.type === 'array' || property.format?.endsWith('[]')) {
+        const items: OpenApiProperty = property.items ?? {
+            format: property.format?.slice(0, -2),
+        };
+        const itemType = columnType(schemaName, fallbackEnumName, items, enums);
+        return itemType.includes(' ') ? `(${itemType})[]` : `${itemType}[]`;
+    }
+
+    const format = property.format ?? '';
+    if (NUMBER_FORMATS.has(format)) {
+        return 'number';
+    }
+    if (format === 'boolean') {
+        return 'boolean';
+    }
+    if (format === 'json' || format === 'jsonb') {
+        return 'Json';
+    }
+
+    switch (property.type) {
+        case 'integer':
+        case 'number':
+            return 'number';
+        case 'boolean':
+            return 'boolean';
+        case 'string':
+            return 'string';
+        case 'object':
+            return 'Json';
+        default:
+            return format ? 'string' : 'unknown';
+    }
+}
+
+function rowField(field: Field): string {
+    return `${propertyKey(field.name)}: ${field.type}${field.nullable ? ' | null' : ''};`;
+}
+
+function insertField(field: Field): string {
+    const optional = field.nullable || field.hasDefault ? '?' : '';
+    return `${propertyKey(field.name)}${optional}: ${field.type}${field.nullable ? ' | null' : ''};`;
+}
+
+function updateField(field: Field): string {
+    return `${propertyKey(field.name)}?: ${field.type}${field.nullable ? ' | null' : ''};`;
+}
+
+/**
+ * `Name: { ...members }`, or an empty section marker
+ */
+function section(name: string, members: string[]): string[] {
+    if (members.length === 0) {
+        return [`${name}: ${EMPTY_SECTION};`];
+    }
+    return [`${name}: {`, ...indent(members, 1), '};'];
+}
+
+function objectType(name: string, members: string[]): string[] {
+    if (members.length === 0) {
+        return [`${name}: Record<string, never>;`];
+    }
+    return [`${name}: {`, ...indent(members, 1), '};'];
+}
+
+/**
+ * Quote property names that are not valid identifiers
+ */
+function propertyKey(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function indent(lines: string[], depth: number): string[] {
+    const prefix = '    '.repeat(depth);
+    return lines.map((line) => (line ? `${prefix}${line}` : line));
+}
+
+function sortedKeys(record: object): string[] {
+    return Object.keys(record).sort();
+}
@@ -0,0 +1,60 @@
+/**
+ * Type generator type definitions
+ */
+
+/**
+ * Property schema of a column or function argument in the PostgREST OpenAPI document
+ */
+export interface OpenApiProperty {
+    type?: string;
+    format?: string;
+    description?: string;
+    default?: unknown;
+    enum?: string[];
+    items?: OpenApiProperty;
+}
+
+/**
+ * Table or view definition
+ */
+export interface OpenApiDefinition {
+    type?: string;
+    required?: string[];
+    properties?: Record<string, OpenApiProperty>;
+}
+
+/**
+ * Operation parameter (function arguments are passed as a `body` parameter)
+ */
+export interface OpenApiParameter {
+    name: string;
+    in: string;
+    required?: boolean;
+    schema?: OpenApiDefinition;
+}
+
+/**
+ * Operations available on a path
+ */
+export interface OpenApiPath {
+    get?: { parameters?: OpenApiParameter[] };
+    post?: { parameters?: OpenApiParameter[] };
+    patch?: { parameters?: OpenApiParameter[] };
+    delete?: { parameters?: OpenApiParameter[] };
+}
+
+/**
+ * PostgREST OpenAPI (Swagger 2.0) document for one schema
+ */
+export interface OpenApiDocument {
+    definitions?: Record<string, OpenApiDefinition>;
+    paths?: Record<string, OpenApiPath>;
+}
+
+/**
+ * Options for generateTypes()
+ */
+export interface GenerateTypesOptions {
+    /** Header comment placed at the top of the output (default: generated-file notice) */
+    header?: string;
+}
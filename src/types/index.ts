@@ -9,6 +9,8 @@
 export interface AeroDBResponse<T> {
     data: T | null;
     error: AeroDBError | null;
+    /** Total number of matching rows, present when a count was requested */
+    count?: number | null;
 }
 
 /**
@@ -0,0 +1,96 @@
+/**
+ * Typed client Type Tests
+ */
+
+import { describe, it, expectTypeOf } from 'vitest';
+import { AeroDBClient } from '../../src/AeroDBClient';
+import type { PostgrestClient } from '../../src/database/PostgrestClient';
+import type { QueryBuilder } from '../../src/database/QueryBuilder';
+import type { Database, Posts, Users } from './database';
+
+type DataOf<Builder> = Builder extends { execute(): Promise<{ data: infer Data }> } ? Data : never;
+
+/** Result data type of a builder (type tests are compiled, not run) */
+declare function dataOf<Builder>(builder: Builder): DataOf<Builder>;
+
+const client = new AeroDBClient<Database>({ url: 'https://api.test.com' });
+
+describe('typed client', () => {
+    describe('from()', () => {
+        it('infers the row type of tables and views by name', () => {
+            expectTypeOf(dataOf(client.from('users'))).toEqualTypeOf<Users['Row'][] | null>();
+            expectTypeOf(dataOf(client.from('active_users'))).toEqualTypeOf<{ id: string; name: string }[] | null>();
+        });
+
+        it('types insert() and upsert() with the Insert shape', () => {
+            expectTypeOf(client.from('users').insert).parameter(0).toEqualTypeOf<Users['Insert'] | Users['Insert'][]>();
+            expectTypeOf(client.from('posts').upsert).parameter(0).toEqualTypeOf<Posts['Insert'] | Posts['Insert'][]>();
+
+            void client.from('users').insert({ name: 'Ada' });
+            // @ts-expect-error name is required
+            void client.from('users').insert({ age: 36 });
+            // @ts-expect-error unknown column
+            void client.from('posts').insert({ author_id: '1', title: 'Hi', rating: 5 });
+        });
+
+        it('types update() with the Update shape', () => {
+            expectTypeOf(client.from('users').update).parameter(0).toEqualTypeOf<Users['Update']>();
+
+            void client.from('users').eq('id', '1').update({ age: 37 });
+            // @ts-expect-error wrong value type
+            void client.from('users').eq('id', '1').update({ age: 'old' });
+        });
+
+        it('makes views without Insert and Update read-only', () => {
+            // @ts-expect-error no Insert shape
+            void client.from('active_users').insert({ id: '1', name: 'Ada' });
+            // @ts-expect-error no Update shape
+            void client.from('active_users').eq('id', '1').update({ name: 'Ada' });
+        });
+
+        it('rejects unknown relation names', () => {
+            // @ts-expect-error not a table or view
+            void client.from('user');
+        });
+    });
+
+    describe('rpc()', () => {
+        it('types arguments and results by function name', () => {
+            expectTypeOf(dataOf(client.rpc('user_count'))).toEqualTypeOf<number | null>();
+            expectTypeOf(dataOf(client.rpc('search_users', { query: 'ada' })))
+                .toEqualTypeOf<{ id: string; name: string }[] | null>();
+
+            void client.rpc('search_users', { query: 'ada' });
+            // @ts-expect-error missing argument
+            void client.rpc('search_users', {});
+        });
+
+        it('rejects unknown function names', () => {
+            // @ts-expect-error not a function
+            void client.rpc('user_total');
+        });
+    });
+
+    describe('schema()', () => {
+        it('types relations from the named schema', () => {
+            expectTypeOf(client.schema('audit')).toEqualTypeOf<PostgrestClient<Database['audit']>>();
+            expectTypeOf(dataOf(client.schema('audit').from('events')))
+                .toEqualTypeOf<{ id: number; action: string }[] | null>();
+
+            // @ts-expect-error users lives in public
+            void client.schema('audit').from('users');
+            // @ts-expect-error not a schema
+            void client.schema('private');
+        });
+    });
+
+    describe('without a Database type', () => {
+        const untyped = new AeroDBClient({ url: 'https://api.test.com' });
+
+        it('accepts any name', () => {
+            expectTypeOf(untyped.from('anything')).toEqualTypeOf<QueryBuilder<Record<string, unknown>>>();
+            expectTypeOf(untyped.from<{ id: number }>('anything')).toEqualTypeOf<QueryBuilder<{ id: number }>>();
+            expectTypeOf(dataOf(untyped.rpc('anything'))).toEqualTypeOf<unknown>();
+        });
+    });
+});
@@ -0,0 +1,117 @@
+/**
+ * Database type used by the type tests, in the shape aerodb-gen-types writes
+ */
+
+export type Database = {
+    public: {
+        Tables: {
+            users: {
+                Row: {
+                    id: string;
+                    name: string;
+                    age: number | null;
+                    metadata: { plan: string } | null;
+                };
+                Insert: {
+                    id?: string;
+                    name: string;
+                    age?: number | null;
+                    metadata?: { plan: string } | null;
+                };
+                Update: {
+                    id?: string;
+                    name?: string;
+                    age?: number | null;
+                    metadata?: { plan: string } | null;
+                };
+                Relationships: [];
+            };
+            posts: {
+                Row: {
+                    id: number;
+                    author_id: string;
+                    title: string;
+                    published: boolean;
+                };
+                Insert: {
+                    id?: number;
+                    author_id: string;
+                    title: string;
+                    published?: boolean;
+                };
+                Update: {
+                    id?: number;
+                    author_id?: string;
+                    title?: string;
+                    published?: boolean;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: 'posts_author_id_fkey';
+                        columns: ['author_id'];
+                        isOneToOne: false;
+                        referencedRelation: 'users';
+                        referencedColumns: ['id'];
+                    },
+                ];
+            };
+            profiles: {
+                Row: {
+                    user_id: string;
+                    bio: string | null;
+                };
+                Insert: {
+                    user_id: string;
+                    bio?: string | null;
+                };
+                Update: {
+                    user_id?: string;
+                    bio?: string | null;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: 'profiles_user_id_fkey';
+                        columns: ['user_id'];
+                        isOneToOne: true;
+                        referencedRelation: 'users';
+                        referencedColumns: ['id'];
+                    },
+                ];
+            };
+        };
+        Views: {
+            active_users: {
+                Row: {
+                    id: string;
+                    name: string;
+                };
+                Relationships: [];
+            };
+        };
+        Functions: {
+            user_count: {
+                Args: Record<string, never>;
+                Returns: number;
+            };
+            search_users: {
+                Args: { query: string };
+                Returns: { id: string; name: string }[];
+            };
+        };
+    };
+    audit: {
+        Tables: {
+            events: {
+                Row: { id: number; action: string };
+                Insert: { id?: number; action: string };
+                Update: { id?: number; action?: string };
+                Relationships: [];
+            };
+        };
+        Views: {};
+        Functions: {};
+    };
+};
+
+export type Users = Database['public']['Tables']['users'];
+export type Posts = Database['public']['Tables']['posts'];
@@ -0,0 +1,159 @@
+/**
+ * select() result inference Type Tests
+ */
+
+import { describe, it, expectTypeOf } from 'vitest';
+import { AeroDBClient } from '../../src/AeroDBClient';
+import type { SelectResult } from '../../src/database/select';
+import type { Database, Users } from './database';
+
+type DataOf<Builder> = Builder extends { execute(): Promise<{ data: infer Data }> } ? Data : never;
+
+/** Row type of a select (type tests are compiled, not run) */
+declare function rowOf<Builder>(builder: Builder): NonNullable<DataOf<Builder>> extends (infer Row)[] ? Row : never;
+
+const client = new AeroDBClient<Database>({ url: 'https://api.test.com' });
+const users = () => client.from('users');
+const posts = () => client.from('posts');
+
+describe('select()', () => {
+    describe('columns', () => {
+        it('returns whole rows for * or no argument', () => {
+            expectTypeOf(rowOf(users().select())).toEqualTypeOf<Users['Row']>();
+            expectTypeOf(rowOf(users().select('*'))).toEqualTypeOf<Users['Row']>();
+        });
+
+        it('picks listed columns, ignoring whitespace', () => {
+            expectTypeOf(rowOf(users().select('id, age'))).toEqualTypeOf<{ id: string; age: number | null }>();
+            expectTypeOf(rowOf(users().select(`
+                id,
+                name
+            `))).toEqualTypeOf<{ id: string; name: string }>();
+        });
+
+        it('renames aliased columns', () => {
+            expectTypeOf(rowOf(users().select('id, display:name'))).toEqualTypeOf<{ id: string; display: string }>();
+        });
+
+        it('types casts', () => {
+            expectTypeOf(rowOf(users().select('age::text'))).toEqualTypeOf<{ age: string }>();
+            expectTypeOf(rowOf(users().select('years:age::int8'))).toEqualTypeOf<{ years: number }>();
+            expectTypeOf(rowOf(posts().select('published::text, id::boolean'))).toEqualTypeOf<{
+                published: string;
+                id: boolean;
+            }>();
+        });
+
+        it('types JSON paths: ->> as text, -> as JSON', () => {
+            expectTypeOf(rowOf(users().select('metadata->>plan'))).toEqualTypeOf<{ plan: string | null }>();
+            expectTypeOf(rowOf(users().select('metadata->plan'))).toEqualTypeOf<{ plan: unknown }>();
+            expectTypeOf(rowOf(users().select('tier:metadata->>plan'))).toEqualTypeOf<{ tier: string | null }>();
+        });
+    });
+
+    describe('embedded resources', () => {
+        it('returns an array for one-to-many embeds, splitting only top-level commas', () => {
+            expectTypeOf(rowOf(users().select('id, posts(id, title)'))).toEqualTypeOf<{
+                id: string;
+                posts: { id: number; title: string }[];
+            }>();
+        });
+
+        it('returns one nullable row for many-to-one embeds', () => {
+            expectTypeOf(rowOf(posts().select('title, author:users(name)'))).toEqualTypeOf<{
+                title: string;
+                author: { name: string } | null;
+            }>();
+        });
+
+        it('resolves foreign key hints and columns', () => {
+            expectTypeOf(rowOf(posts().select('author:users!posts_author_id_fkey(name)'))).toEqualTypeOf<{
+                author: { name: string } | null;
+            }>();
+            expectTypeOf(rowOf(posts().select('author_id(name)'))).toEqualTypeOf<{
+                author_id: { name: string } | null;
+            }>();
+        });
+
+        it('removes null for !inner', () => {
+            expectTypeOf(rowOf(posts().select('id, users!inner(name)'))).toEqualTypeOf<{
+                id: number;
+                users: { name: string };
+            }>();
+        });
+
+        it('returns one nullable row for one-to-one embeds from the referenced side', () => {
+            expectTypeOf(rowOf(users().select('id, profiles(bio)'))).toEqualTypeOf<{
+                id: string;
+                profiles: { bio: string | null } | null;
+            }>();
+        });
+
+        it('spreads ... embeds into the row', () => {
+            expectTypeOf(rowOf(users().select('id, ...profiles(bio)'))).toEqualTypeOf<{
+                id: string;
+                bio: string | null;
+            }>();
+        });
+
+        it('nests embeds', () => {
+            expectTypeOf(rowOf(posts().select('id, author:users(name, profiles(bio))'))).toEqualTypeOf<{
+                id: number;
+                author: { name: string; profiles: { bio: string | null } | null } | null;
+            }>();
+        });
+    });
+
+    describe('aggregates', () => {
+        it('types aggregate columns', () => {
+            expectTypeOf(rowOf(users().select('count()'))).toEqualTypeOf<{ count: number }>();
+            expectTypeOf(rowOf(users().select('name, age.sum(), oldest:age.max()'))).toEqualTypeOf<{
+                name: string;
+                sum: number | null;
+                oldest: number | null;
+            }>();
+        });
+    });
+
+    describe('errors', () => {
+        it('rejects misspelled columns', () => {
+            // @ts-expect-error column 'nmae' does not exist
+            void users().select('id, nmae');
+            // @ts-expect-error column 'aeg' does not exist (cast)
+            void users().select('aeg::text');
+            // @ts-expect-error column 'meta' does not exist (JSON path)
+            void users().select('meta->>plan');
+            // @ts-expect-error column 'aeg' does not exist (aggregate)
+            void users().select('aeg.sum()');
+        });
+
+        it('rejects unknown relations and columns inside embeds', () => {
+            // @ts-expect-error relation 'comments' does not exist
+            void users().select('id, comments(id)');
+            // @ts-expect-error column 'titel' does not exist
+            void users().select('id, posts(titel)');
+        });
+
+        it('marks unknown columns in the result type', () => {
+            expectTypeOf<SelectResult<Users['Row'], 'nmae'>>().toEqualTypeOf<{
+                nmae: { readonly error: "column 'nmae' does not exist" };
+            }>();
+        });
+    });
+
+    describe('without a Database type', () => {
+        const untyped = new AeroDBClient({ url: 'https://api.test.com' });
+
+        it('types columns from the row type and embeds as unknown', () => {
+            expectTypeOf(rowOf(untyped.from<{ id: number }>('items').select('id, owner:users(name)'))).toEqualTypeOf<{
+                id: number;
+                owner: unknown;
+            }>();
+        });
+
+        it('accepts any string that is not a literal', () => {
+            const columns: string = 'id';
+            expectTypeOf(rowOf(untyped.from<{ id: number }>('items').select(columns))).toEqualTypeOf<{ id: number }>();
+        });
+    });
+});
@@ -0,0 +1,370 @@
+/**
+ * PostgrestClient Unit Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PostgrestClient } from '../../src/database/PostgrestClient';
+import { QueryCache } from '../../src/lib/cache';
+import type { AeroFetch } from '../../src/lib/fetch';
+
+// Mock fetch
+const createMockFetch = (): AeroFetch => {
+    return vi.fn().mockResolvedValue({
+        data: [{ id: 1, name: 'Test' }],
+        error: null,
+        status: 200,
+        count: null,
+    });
+};
+
+describe('PostgrestClient', () => {
+    let mockFetch: AeroFetch;
+    let db: PostgrestClient;
+
+    const getCall = () => (mockFetch as ReturnType<typeof vi.fn>).mock.calls[0];
+
+    beforeEach(() => {
+        mockFetch = createMockFetch();
+        db = new PostgrestClient('https://api.test.com', mockFetch);
+    });
+
+    describe('rpc', () => {
+        it('explains the function call', async () => {
+            await db.rpc('search_orders', { q: 'late' }).explain({ analyze: true, format: 'json' });
+
+            const [, options] = getCall();
+            expect(options.method).toBe('POST');
+            expect(options.headers['Accept']).toBe(
+                'application/vnd.pgrst.plan+json; for="application/json"; options=analyze'
+            );
+        });
+
+        it('calls the function with POST and JSON arguments', async () => {
+            await db.rpc('add_numbers', { a: 1, b: 2 }).execute();
+
+            const [url, options] = getCall();
+            expect(url).toBe('https://api.test.com/rest/v1/rpc/add_numbers');
+            expect(options.method).toBe('POST');
+            expect(options.body).toBe(JSON.stringify({ a: 1, b: 2 }));
+        });
+
+        it('returns the function result', async () => {
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: 3,
+                error: null,
+                status: 200,
+                count: null,
+            });
+
+            const result = await db.rpc<{ a: number; b: number }, number>('add_numbers', { a: 1, b: 2 }).execute();
+
+            expect(result.data).toBe(3);
+            expect(result.error).toBeNull();
+        });
+
+        it('sends arguments in the query string with get', async () => {
+            await db.rpc('search_tags', { prefix: 'ae', ids: [1, 2] }, { get: true }).execute();
+
+            const [url, options] = getCall();
+            const params = new URL(url).searchParams;
+            expect(options.method).toBe('GET');
+            expect(options.body).toBeUndefined();
+            expect(params.get('prefix')).toBe('ae');
+            expect(params.get('ids')).toBe('{1,2}');
+        });
+
+        it('uses HEAD and Prefer count for head counts', async () => {
+            await db.rpc('list_members', { team_id: 7 }, { head: true, count: 'exact' }).execute();
+
+            const [url, options] = getCall();
+            expect(options.method).toBe('HEAD');
+            expect(options.headers.Prefer).toBe('count=exact');
+            expect(new URL(url).searchParams.get('team_id')).toBe('7');
+        });
+
+        it('filters, orders and limits set-returning functions', async () => {
+            await db
+                .rpc<{ team_id: number }, { id: number; name: string; active: boolean }[]>(
+                    'list_members',
+                    { team_id: 7 }
+                )
+                .eq('active', true)
+                .order('name')
+                .limit(10)
+                .execute();
+
+            const [url, options] = getCall();
+            const params = new URL(url).searchParams;
+            expect(options.method).toBe('POST');
+            expect(params.get('active')).toBe('eq.true');
+            expect(params.get('order')).toBe('name.asc');
+            expect(params.get('limit')).toBe('10');
+            expect(params.has('select')).toBe(false);
+        });
+
+        it('sends select when columns are chosen', async () => {
+            await db.rpc('list_members', { team_id: 7 }).select('id, name').execute();
+
+            expect(new URL(getCall()[0]).searchParams.get('select')).toBe('id, name');
+        });
+
+        it('sends Content-Profile for POST calls on a custom schema', async () => {
+            db = new PostgrestClient('https://api.test.com', mockFetch, 'billing');
+            await db.rpc('close_period').execute();
+
+            expect(getCall()[1].headers['Content-Profile']).toBe('billing');
+        });
+
+        it('sends Accept-Profile for GET calls on a custom schema', async () => {
+            db = new PostgrestClient('https://api.test.com', mockFetch, 'billing');
+            await db.rpc('open_invoices', {}, { get: true }).execute();
+
+            expect(getCall()[1].headers['Accept-Profile']).toBe('billing');
+        });
+    });
+
+    describe('withSchema', () => {
+        const calls = () => (mockFetch as ReturnType<typeof vi.fn>).mock.calls;
+
+        it('sends the schema per builder while the original client keeps its own', async () => {
+            const audit = db.withSchema('audit');
+
+            await audit.from('events').select('*');
+            await db.from('users').select('*');
+            await audit.from('events').insert({ action: 'login' });
+            await audit.rpc('purge_events', { days: 30 });
+
+            expect(calls()[0][1].headers['Accept-Profile']).toBe('audit');
+            expect(calls()[1][1].headers['Accept-Profile']).toBeUndefined();
+            expect(calls()[2][1].headers['Content-Profile']).toBe('audit');
+            expect(calls()[3][1].headers['Content-Profile']).toBe('audit');
+        });
+
+        it('keeps the client options', async () => {
+            const unsafe = new PostgrestClient('https://api.test.com', mockFetch, 'public', { safeMutations: false });
+            const { error } = await unsafe.withSchema('audit').from('events').delete();
+
+            expect(error).toBeNull();
+            expect(calls()[0][1].headers['Content-Profile']).toBe('audit');
+        });
+
+        it('queues transaction operations with their schema', async () => {
+            await db.transaction(async (tx) => {
+                await tx.from('orders').insert({ id: 1 });
+                await tx.withSchema('audit').from('events').insert({ action: 'order' });
+            });
+
+            const { operations } = JSON.parse(calls()[0][1].body);
+            expect(operations[0].headers['Content-Profile']).toBeUndefined();
+            expect(operations[1].headers['Content-Profile']).toBe('audit');
+        });
+    });
+
+    describe('cache', () => {
+        const reads = () =>
+            (mockFetch as ReturnType<typeof vi.fn>).mock.calls.filter(([, init]) => init.method === 'GET').length;
+
+        it('invalidates a table on request, per schema', async () => {
+            const cached = new PostgrestClient('https://api.test.com', mockFetch, 'public', { cache: new QueryCache() });
+
+            await cached.from('events').select('*');
+            await cached.withSchema('audit').from('events').select('*');
+            await cached.invalidate('events');
+            await cached.from('events').select('*');
+            await cached.withSchema('audit').from('events').select('*');
+
+            expect(reads()).toBe(3);
+        });
+
+        it('invalidates tables written by a committed transaction', async () => {
+            const cached = new PostgrestClient('https://api.test.com', mockFetch, 'public', { cache: new QueryCache() });
+
+            await cached.from('orders').select('*');
+            await cached.withSchema('audit').from('events').select('*');
+            await cached.transaction(async (tx) => {
+                await tx.from('orders').insert({ id: 1 });
+                await tx.withSchema('audit').from('events').insert({ action: 'order' });
+            });
+            await cached.from('orders').select('*');
+            await cached.withSchema('audit').from('events').select('*');
+
+            expect(reads()).toBe(4);
+        });
+
+        it('keeps the cache after a dry run', async () => {
+            const cached = new PostgrestClient('https://api.test.com', mockFetch, 'public', { cache: new QueryCache() });
+
+            await cached.from('orders').select('*');
+            await cached.transaction(async (tx) => {
+                await tx.from('orders').insert({ id: 1 });
+            }, { dryRun: true });
+            await cached.from('orders').select('*');
+
+            expect(reads()).toBe(1);
+        });
+    });
+
+    describe('safeMutations', () => {
+        it('refuses unfiltered mutations by default', async () => {
+            const { error } = await db.from('users').delete();
+
+            expect(error?.code).toBe('UNFILTERED_MUTATION');
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('passes the option to query builders and transactions', async () => {
+            const unsafe = new PostgrestClient('https://api.test.com', mockFetch, 'public', { safeMutations: false });
+
+            expect((await unsafe.from('users').delete()).error).toBeNull();
+            await unsafe.transaction(async (tx) => {
+                expect((await tx.from('users').update({ active: false })).error).toBeNull();
+            });
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('transaction', () => {
+        it('queues operations and sends them as one batch', async () => {
+            const queued: unknown[] = [];
+            const result = await db.transaction(async (tx) => {
+                queued.push(await tx.from('orders').insert({ id: 1, customer_id: 7 }));
+                queued.push(await tx.from('order_items').insert([{ order_id: 1, sku: 'A' }]));
+                queued.push(await tx.from('carts').eq('customer_id', 7).delete({ returning: 'minimal' }));
+            });
+
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            expect(queued).toEqual([
+                { data: null, error: null, count: null },
+                { data: null, error: null, count: null },
+                { data: null, error: null, count: null },
+            ]);
+
+            const [url, options] = getCall();
+            expect(url).toBe('https://api.test.com/rest/v1/batch');
+            expect(options.method).toBe('POST');
+            expect(options.headers['Prefer']).toBe('tx=commit');
+
+            const { operations } = JSON.parse(options.body);
+            expect(operations).toEqual([
+                {
+                    method: 'POST',
+                    path: '/orders',
+                    headers: { Prefer: 'return=representation' },
+                    body: { id: 1, customer_id: 7 },
+                },
+                {
+                    method: 'POST',
+                    path: '/order_items?columns=order_id%2Csku',
+                    headers: { Prefer: 'return=representation' },
+                    body: [{ order_id: 1, sku: 'A' }],
+                },
+                {
+                    method: 'DELETE',
+                    path: '/carts?select=*&customer_id=eq.7',
+                    headers: { Prefer: 'return=minimal' },
+                },
+            ]);
+            expect(result.error).toBeNull();
+        });
+
+        it('rolls back in dry-run mode', async () => {
+            await db.transaction((tx) => tx.from('orders').insert({ id: 1 }), { dryRun: true });
+
+            expect(getCall()[1].headers['Prefer']).toBe('tx=rollback');
+        });
+
+        it('returns the batch results', async () => {
+            const results = [{ status: 201, data: [{ id: 1 }] }];
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: results,
+                error: null,
+                status: 200,
+                count: null,
+            });
+
+            const { data } = await db.transaction((tx) => tx.from('orders').insert({ id: 1 }));
+
+            expect(data).toEqual(results);
+        });
+
+        it('reports a server without the batch endpoint', async () => {
+            const notFound = { message: 'Not Found', status: 404 };
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: null,
+                error: notFound,
+                status: 404,
+                count: null,
+            });
+
+            const { data, error } = await db.transaction((tx) => tx.from('orders').insert({ id: 1 }));
+
+            expect(data).toBeNull();
+            expect(error).toEqual({
+                message: 'The server does not support transactions: POST /rest/v1/batch was not found',
+                status: 404,
+                code: 'BATCH_UNAVAILABLE',
+                details: notFound,
+            });
+        });
+
+        it('sends nothing when the callback throws', async () => {
+            const { data, error } = await db.transaction(async (tx) => {
+                await tx.from('orders').insert({ id: 1 });
+                throw new Error('out of stock');
+            });
+
+            expect(mockFetch).not.toHaveBeenCalled();
+            expect(data).toBeNull();
+            expect(error).toEqual({ message: 'out of stock', code: 'TRANSACTION_ABORTED' });
+        });
+
+        it('skips the request for an empty transaction', async () => {
+            const { data } = await db.transaction(() => undefined);
+
+            expect(mockFetch).not.toHaveBeenCalled();
+            expect(data).toEqual([]);
+        });
+
+        it('refuses reads, which would only have a result after commit', async () => {
+            const reads: unknown[] = [];
+            await db.transaction(async (tx) => {
+                reads.push(await tx.from('orders').select('*').eq('id', 1));
+                reads.push(await tx.rpc('stock_level', { sku: 'A' }, { get: true }));
+                await tx.from('orders').insert({ id: 2 });
+            });
+
+            expect(reads).toEqual([
+                { data: null, error: expect.objectContaining({ code: 'UNSUPPORTED_IN_TRANSACTION' }), count: null },
+                { data: null, error: expect.objectContaining({ code: 'UNSUPPORTED_IN_TRANSACTION' }), count: null },
+            ]);
+            expect(JSON.parse(getCall()[1].body).operations).toHaveLength(1);
+        });
+
+        it('refuses concurrency checks', async () => {
+            let update: unknown;
+            const { data } = await db.transaction(async (tx) => {
+                update = await tx
+                    .from<{ id: number; version: number }>('orders')
+                    .eq('id', 1)
+                    .update({ id: 1 }, { concurrency: { column: 'version', expected: 3 } });
+            });
+
+            expect(update).toEqual({
+                data: null,
+                error: expect.objectContaining({ code: 'UNSUPPORTED_IN_TRANSACTION' }),
+                count: null,
+            });
+            expect(mockFetch).not.toHaveBeenCalled();
+            expect(data).toEqual([]);
+        });
+
+        it('sends the schema profile', async () => {
+            const audit = new PostgrestClient('https://api.test.com', mockFetch, 'audit');
+            await audit.transaction((tx) => tx.from('events').insert({ id: 1 }));
+
+            const [, options] = getCall();
+            expect(options.headers['Content-Profile']).toBe('audit');
+            expect(JSON.parse(options.body).operations[0].headers['Content-Profile']).toBe('audit');
+        });
+    });
+});
@@ -3,7 +3,10 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { QueryBuilder } from '../../src/database/QueryBuilder';
+import { QueryBuilder, isConflictError } from '../../src/database/QueryBuilder';
+import { QueryCache } from '../../src/lib/cache';
+import { RealtimeChannel } from '../../src/realtime/RealtimeChannel';
+import type { RealtimePayload } from '../../src/realtime/types';
 import type { AeroFetch } from '../../src/lib/fetch';
 
 // Mock fetch
@@ -135,6 +138,357 @@ describe('QueryBuilder', () => {
         });
     });
 
+    describe('multiple filters on one column', () => {
+        const getParams = () => new URL(
+            (mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][0] as string
+        ).searchParams;
+
+        it('keeps both bounds of a date range', async () => {
+            const qb = new QueryBuilder<{ created_at: string }>('invoices', 'https://api.test.com', mockFetch);
+            await qb
+                .gte('created_at', '2026-01-01T00:00:00Z')
+                .lte('created_at', '2026-01-31T23:59:59Z')
+                .execute();
+
+            expect(getParams().getAll('created_at')).toEqual([
+                'gte.2026-01-01T00:00:00Z',
+                'lte.2026-01-31T23:59:59Z',
+            ]);
+        });
+
+        it('keeps a half-open date range', async () => {
+            const qb = new QueryBuilder<{ billed_on: string }>('invoices', 'https://api.test.com', mockFetch);
+            await qb.gte('billed_on', '2026-02-01').lt('billed_on', '2026-03-01').execute();
+
+            expect(getParams().getAll('billed_on')).toEqual(['gte.2026-02-01', 'lt.2026-03-01']);
+        });
+
+        it('keeps combined neq filters', async () => {
+            const qb = new QueryBuilder<{ status: string }>('orders', 'https://api.test.com', mockFetch);
+            await qb.neq('status', 'cancelled').neq('status', 'refunded').execute();
+
+            expect(getParams().getAll('status')).toEqual(['neq.cancelled', 'neq.refunded']);
+        });
+
+        it('keeps not.in together with is', async () => {
+            const qb = new QueryBuilder<{ region: string | null }>('accounts', 'https://api.test.com', mockFetch);
+            await qb.not('region', 'in', ['eu', 'us']).not('region', 'is', null).execute();
+
+            expect(getParams().getAll('region')).toEqual(['not.in.(eu,us)', 'not.is.null']);
+        });
+
+        it('encodes repeated filters as separate parameters', async () => {
+            const qb = new QueryBuilder<{ amount: number }>('payments', 'https://api.test.com', mockFetch);
+            await qb.gt('amount', 10).lt('amount', 100).execute();
+
+            const callUrl = (mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][0] as string;
+            expect(callUrl).toContain('amount=gt.10&amount=lt.100');
+        });
+
+        it('keeps every filter for update and delete', async () => {
+            const qb = new QueryBuilder<{ created_at: string }>('sessions', 'https://api.test.com', mockFetch);
+            await qb.gte('created_at', '2026-01-01').lt('created_at', '2026-02-01').delete();
+
+            expect(getParams().getAll('created_at')).toEqual(['gte.2026-01-01', 'lt.2026-02-01']);
+        });
+    });
+
+    describe('logic groups', () => {
+        const getUrl = () => decodeURIComponent(
+            ((mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][0] as string).replace(/\+/g, ' ')
+        );
+
+        it('builds or filter from a raw string', async () => {
+            const qb = new QueryBuilder('issues', 'https://api.test.com', mockFetch);
+            await qb.or('status.eq.open,assignee.is.null').execute();
+
+            expect(getUrl()).toContain('or=(status.eq.open,assignee.is.null)');
+        });
+
+        it('builds nested groups from a raw string', async () => {
+            const qb = new QueryBuilder('items', 'https://api.test.com', mockFetch);
+            await qb.or('a.eq.1,and(b.gt.2,c.lt.3)').execute();
+
+            expect(getUrl()).toContain('or=(a.eq.1,and(b.gt.2,c.lt.3))');
+        });
+
+        it('builds or filter from a callback', async () => {
+            const qb = new QueryBuilder<{ status: string; assignee: string | null }>(
+                'issues',
+                'https://api.test.com',
+                mockFetch
+            );
+            await qb.or((q) => q.eq('status', 'open').is('assignee', null)).execute();
+
+            expect(getUrl()).toContain('or=(status.eq.open,assignee.is.null)');
+        });
+
+        it('builds nested callback groups', async () => {
+            const qb = new QueryBuilder<{ a: number; b: number; c: number }>(
+                'items',
+                'https://api.test.com',
+                mockFetch
+            );
+            await qb
+                .or((q) => q.eq('a', 1).and((g) => g.gt('b', 2).lt('c', 3)))
+                .execute();
+
+            expect(getUrl()).toContain('or=(a.eq.1,and(b.gt.2,c.lt.3))');
+        });
+
+        it('negates a single filter', async () => {
+            const qb = new QueryBuilder<{ status: string }>('issues', 'https://api.test.com', mockFetch);
+            await qb.not('status', 'eq', 'archived').execute();
+
+            expect(getUrl()).toContain('status=not.eq.archived');
+        });
+
+        it('negates a filter inside a group', async () => {
+            const qb = new QueryBuilder<{ status: string; priority: number }>(
+                'issues',
+                'https://api.test.com',
+                mockFetch
+            );
+            await qb.or((q) => q.not('status', 'in', ['closed', 'archived']).gte('priority', 3)).execute();
+
+            expect(getUrl()).toContain('or=(status.not.in.(closed,archived),priority.gte.3)');
+        });
+
+        it('negates a group built from a callback', async () => {
+            const qb = new QueryBuilder<{ role: string; verified: boolean }>(
+                'users',
+                'https://api.test.com',
+                mockFetch
+            );
+            await qb.not((q) => q.eq('role', 'guest').is('verified', false)).execute();
+
+            expect(getUrl()).toContain('not.and=(role.eq.guest,verified.is.false)');
+        });
+
+        it('negates an or group', async () => {
+            const qb = new QueryBuilder('issues', 'https://api.test.com', mockFetch);
+            await qb.or('status.eq.open,status.eq.pending', { negate: true }).execute();
+
+            expect(getUrl()).toContain('not.or=(status.eq.open,status.eq.pending)');
+        });
+
+        it('keeps multiple or groups', async () => {
+            const qb = new QueryBuilder('issues', 'https://api.test.com', mockFetch);
+            await qb.or('a.eq.1,b.eq.2').or('c.eq.3,d.eq.4').execute();
+
+            const url = getUrl();
+            expect(url).toContain('or=(a.eq.1,b.eq.2)');
+            expect(url).toContain('or=(c.eq.3,d.eq.4)');
+        });
+
+        it('combines groups with column filters', async () => {
+            const qb = new QueryBuilder<{ project: string }>('issues', 'https://api.test.com', mockFetch);
+            await qb.eq('project', 'aero').or('status.eq.open,assignee.is.null').execute();
+
+            const url = getUrl();
+            expect(url).toContain('project=eq.aero');
+            expect(url).toContain('or=(status.eq.open,assignee.is.null)');
+        });
+    });
+
+    describe('value encoding', () => {
+        const getUrl = () =>
+            decodeURIComponent(((mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][0] as string).replace(/\+/g, ' '));
+
+        it('quotes in() values containing reserved characters', async () => {
+            const qb = new QueryBuilder<{ name: string }>('users', 'https://api.test.com', mockFetch);
+            await qb.in('name', ['Smith, Jr.', 'O"Brien', 'Lee']).execute();
+
+            expect(getUrl()).toContain('name=in.("Smith, Jr.","O\\"Brien",Lee)');
+        });
+
+        it('quotes values inside logic groups', async () => {
+            const qb = new QueryBuilder<{ name: string; title: string }>('users', 'https://api.test.com', mockFetch);
+            await qb.or((q) => q.eq('name', 'Smith, Jr.').ilike('title', '%(acting)%')).execute();
+
+            expect(getUrl()).toContain('or=(name.eq."Smith, Jr.",title.ilike."%(acting)%")');
+        });
+
+        it('serializes dates and bigints deterministically', async () => {
+            const qb = new QueryBuilder<{ created_at: Date; id: bigint }>('events', 'https://api.test.com', mockFetch);
+            await qb.gte('created_at', new Date(Date.UTC(2024, 0, 2, 3, 4, 5))).eq('id', 9007199254740993n).execute();
+
+            const url = getUrl();
+            expect(url).toContain('created_at=gte.2024-01-02T03:04:05.000Z');
+            expect(url).toContain('id=eq.9007199254740993');
+        });
+    });
+
+    describe('array, range and JSONB operators', () => {
+        interface Ticket {
+            tags: string[];
+            during: string;
+            metadata: { plan: string; seats: number };
+        }
+
+        const getUrl = () =>
+            decodeURIComponent(((mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][0] as string).replace(/\+/g, ' '));
+
+        it('serializes arrays as Postgres array literals', async () => {
+            const qb = new QueryBuilder<Ticket>('tickets', 'https://api.test.com', mockFetch);
+            await qb
+                .contains('tags', ['billing', 'urgent'])
+                .containedBy('tags', ['billing', 'urgent', 'vip'])
+                .overlaps('tags', ['a b', 'c,d', 'say "hi"'])
+                .execute();
+
+            const url = getUrl();
+            expect(url).toContain('tags=cs.{billing,urgent}');
+            expect(url).toContain('tags=cd.{billing,urgent,vip}');
+            expect(url).toContain('tags=ov.{"a b","c,d","say \\"hi\\""}');
+        });
+
+        it('serializes JSONB objects as JSON', async () => {
+            const qb = new QueryBuilder<Ticket>('tickets', 'https://api.test.com', mockFetch);
+            await qb.contains('metadata', { plan: 'pro' }).execute();
+
+            expect(getUrl()).toContain('metadata=cs.{"plan":"pro"}');
+        });
+
+        it('sends range literals as written', async () => {
+            const qb = new QueryBuilder<Ticket>('tickets', 'https://api.test.com', mockFetch);
+            await qb
+                .contains('during', '[2024-01-01,2024-02-01)')
+                .overlaps('during', '[1,5)')
+                .rangeLt('during', '[1,5)')
+                .rangeGt('during', '[1,5)')
+                .rangeGte('during', '[1,5)')
+                .rangeLte('during', '[1,5)')
+                .rangeAdjacent('during', '[1,5)')
+                .execute();
+
+            const url = getUrl();
+            expect(url).toContain('during=cs.[2024-01-01,2024-02-01)');
+            expect(url).toContain('during=ov.[1,5)');
+            expect(url).toContain('during=sl.[1,5)');
+            expect(url).toContain('during=sr.[1,5)');
+            expect(url).toContain('during=nxl.[1,5)');
+            expect(url).toContain('during=nxr.[1,5)');
+            expect(url).toContain('during=adj.[1,5)');
+        });
+
+        it('accepts JSON path selectors as filter keys', async () => {
+            const qb = new QueryBuilder<Ticket>('tickets', 'https://api.test.com', mockFetch);
+            await qb.eq('metadata->>plan', 'pro').gt('metadata->seats', 5).execute();
+
+            const url = getUrl();
+            expect(url).toContain('metadata->>plan=eq.pro');
+            expect(url).toContain('metadata->seats=gt.5');
+        });
+
+        it('negates containment with not()', async () => {
+            const qb = new QueryBuilder<Ticket>('tickets', 'https://api.test.com', mockFetch);
+            await qb.not('tags', 'cs', ['spam']).execute();
+
+            expect(getUrl()).toContain('tags=not.cs.{spam}');
+        });
+    });
+
+    describe('text search', () => {
+        const getUrl = () =>
+            decodeURIComponent(((mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][0] as string).replace(/\+/g, ' '));
+
+        it('uses fts by default', async () => {
+            const qb = new QueryBuilder<{ fts: string }>('articles', 'https://api.test.com', mockFetch);
+            await qb.textSearch('fts', "'billing' & 'refund'").execute();
+
+            expect(getUrl()).toContain("fts=fts.'billing' & 'refund'");
+        });
+
+        it('maps the query type to plfts, phfts and wfts', async () => {
+            const qb = new QueryBuilder<{ body: string }>('articles', 'https://api.test.com', mockFetch);
+            await qb
+                .textSearch('body', 'reset password', { type: 'plain' })
+                .textSearch('body', 'two factor', { type: 'phrase' })
+                .textSearch('body', '"api key" -legacy', { type: 'websearch' })
+                .execute();
+
+            const url = getUrl();
+            expect(url).toContain('body=plfts.reset password');
+            expect(url).toContain('body=phfts.two factor');
+            expect(url).toContain('body=wfts."api key" -legacy');
+        });
+
+        it('adds the text search configuration', async () => {
+            const qb = new QueryBuilder<{ body: string }>('articles', 'https://api.test.com', mockFetch);
+            await qb.textSearch('body', 'invoices', { type: 'websearch', config: 'english' }).execute();
+
+            expect(getUrl()).toContain('body=wfts(english).invoices');
+        });
+
+        it('encodes reserved query characters in the URL', async () => {
+            const qb = new QueryBuilder<{ body: string }>('articles', 'https://api.test.com', mockFetch);
+            await qb.textSearch('body', 'cats & dogs', { type: 'plain' }).execute();
+
+            const raw = (mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][0] as string;
+            expect(raw).toContain('body=plfts.cats+%26+dogs');
+        });
+
+        it('quotes query text inside logic groups', async () => {
+            const qb = new QueryBuilder<{ title: string; body: string }>('articles', 'https://api.test.com', mockFetch);
+            await qb
+                .or((q) => q.textSearch('title', 'refund, billing', { type: 'plain' }).textSearch('body', '"api key"', { type: 'websearch' }))
+                .execute();
+
+            expect(getUrl()).toContain('or=(title.plfts."refund, billing",body.wfts."\\"api key\\"")');
+        });
+    });
+
+    describe('aggregates', () => {
+        interface Order {
+            id: number;
+            category: string;
+            amount: number;
+            created_at: string;
+        }
+
+        const getSelect = () =>
+            new URL((mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][0] as string).searchParams.get('select');
+
+        it('aggregates over all rows when no columns are selected', async () => {
+            const qb = new QueryBuilder<Order>('orders', 'https://api.test.com', mockFetch);
+            await qb.count().sum('amount').execute();
+
+            expect(getSelect()).toBe('count(),amount.sum()');
+        });
+
+        it('groups by the selected columns', async () => {
+            const qb = new QueryBuilder<Order>('orders', 'https://api.test.com', mockFetch);
+            await qb
+                .select('category')
+                .sum('amount', { as: 'revenue' })
+                .avg('amount')
+                .min('created_at', { as: 'first' })
+                .max('created_at', { as: 'last' })
+                .count('id')
+                .execute();
+
+            expect(getSelect()).toBe(
+                'category,revenue:amount.sum(),amount.avg(),first:created_at.min(),last:created_at.max(),id.count()'
+            );
+        });
+
+        it('composes with filters and ordering', async () => {
+            const qb = new QueryBuilder<Order>('orders', 'https://api.test.com', mockFetch);
+            await qb
+                .select('category')
+                .sum('amount')
+                .gte('created_at', '2024-01-01')
+                .order('category')
+                .execute();
+
+            const url = decodeURIComponent((mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][0] as string);
+            expect(url).toContain('select=category,amount.sum()');
+            expect(url).toContain('created_at=gte.2024-01-01');
+            expect(url).toContain('order=category.asc');
+        });
+    });
+
     describe('ordering', () => {
         it('builds order ascending', async () => {
             const qb = new QueryBuilder<{ created_at: string }>('posts', 'https://api.test.com', mockFetch);
@@ -188,72 +542,1394 @@ describe('QueryBuilder', () => {
         });
     });
 
-    describe('single', () => {
-        it('sets limit to 1', async () => {
-            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
-            await qb.single().execute();
+    describe('embedded resources', () => {
+        const getUrl = () => (mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][0] as string;
 
-            expect(mockFetch).toHaveBeenCalledWith(
-                expect.stringContaining('limit=1'),
-                expect.any(Object)
-            );
+        it('filters an embedded resource with a dotted column', async () => {
+            const qb = new QueryBuilder('posts', 'https://api.test.com', mockFetch);
+            await qb.select('id, comments(id, body)').eq('comments.approved', true).execute();
+
+            expect(getUrl()).toContain('comments.approved=eq.true');
         });
-    });
 
-    describe('complex queries', () => {
-        it('builds complete query with all options', async () => {
-            const qb = new QueryBuilder<{ role: string; age: number; name: string; created_at: string }>(
-                'users',
-                'https://api.test.com',
-                mockFetch
-            );
+        it('filters an embedded resource with referencedTable', async () => {
+            const qb = new QueryBuilder('posts', 'https://api.test.com', mockFetch);
+            await qb
+                .select('id, comments(id, body)')
+                .eq('approved', true, { referencedTable: 'comments' })
+                .not('body', 'is', null, { referencedTable: 'comments' })
+                .execute();
+
+            const url = getUrl();
+            expect(url).toContain('comments.approved=eq.true');
+            expect(url).toContain('comments.body=not.is.null');
+        });
+
+        it('prefixes logic groups on an embedded resource', async () => {
+            const qb = new QueryBuilder('posts', 'https://api.test.com', mockFetch);
+            await qb
+                .or('approved.eq.true,author_id.eq.7', { referencedTable: 'comments' })
+                .execute();
+
+            expect(decodeURIComponent(getUrl())).toContain('comments.or=(approved.eq.true,author_id.eq.7)');
+        });
+
+        it('orders each embedded resource separately', async () => {
+            const qb = new QueryBuilder<{ created_at: string }>('posts', 'https://api.test.com', mockFetch);
             await qb
-                .select('id, name, email')
-                .eq('role', 'admin')
-                .gt('age', 18)
                 .order('created_at', { ascending: false })
+                .order('created_at', { referencedTable: 'comments' })
+                .order('id', { ascending: false, referencedTable: 'comments' })
+                .execute();
+
+            const url = decodeURIComponent(getUrl());
+            expect(url).toContain('order=created_at.desc');
+            expect(url).toContain('comments.order=created_at.asc,id.desc');
+        });
+
+        it('limits and offsets an embedded resource', async () => {
+            const qb = new QueryBuilder('posts', 'https://api.test.com', mockFetch);
+            await qb
                 .limit(10)
-                .offset(0)
+                .limit(5, { referencedTable: 'comments' })
+                .offset(2, { referencedTable: 'comments' })
                 .execute();
 
-            const callUrl = (mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][0] as string;
-            expect(callUrl).toContain('select=id%2C+name%2C+email');
-            expect(callUrl).toContain('role=eq.admin');
-            expect(callUrl).toContain('age=gt.18');
-            expect(callUrl).toContain('order=created_at.desc');
-            expect(callUrl).toContain('limit=10');
+            const url = getUrl();
+            expect(url).toContain('limit=10');
+            expect(url).toContain('comments.limit=5');
+            expect(url).toContain('comments.offset=2');
+            expect(url).not.toContain('&offset=');
         });
     });
 
-    describe('CRUD operations', () => {
-        it('calls POST for insert', async () => {
+    describe('range', () => {
+        it('translates to offset and limit', async () => {
             const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
-            await qb.insert({ name: 'John', email: 'john@example.com' });
+            await qb.range(20, 29).execute();
 
-            expect(mockFetch).toHaveBeenCalledWith(
-                'https://api.test.com/rest/v1/users',
-                expect.objectContaining({ method: 'POST' })
-            );
+            const url = (mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][0] as string;
+            expect(url).toContain('offset=20');
+            expect(url).toContain('limit=10');
         });
 
-        it('calls PATCH for update', async () => {
-            const qb = new QueryBuilder<{ id: string }>('users', 'https://api.test.com', mockFetch);
-            await qb.eq('id', '123').update({ name: 'Jane' });
+        it('applies to an embedded resource', async () => {
+            const qb = new QueryBuilder('posts', 'https://api.test.com', mockFetch);
+            await qb.range(0, 4, { referencedTable: 'comments' }).execute();
 
-            expect(mockFetch).toHaveBeenCalledWith(
-                expect.any(String),
-                expect.objectContaining({ method: 'PATCH' })
+            const url = (mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][0] as string;
+            expect(url).toContain('comments.offset=0');
+            expect(url).toContain('comments.limit=5');
+        });
+    });
+
+    describe('keyset pagination', () => {
+        interface Event {
+            id: number;
+            created_at: string;
+        }
+
+        const getUrl = (call = 0) =>
+            decodeURIComponent((mockFetch as ReturnType<typeof vi.fn>).mock.calls[call][0] as string);
+
+        const mockPages = (...pages: unknown[][]) => {
+            for (const rows of pages) {
+                (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                    data: rows,
+                    error: null,
+                    status: 200,
+                    count: null,
+                });
+            }
+        };
+
+        it('orders by the keyset and limits to the page size', async () => {
+            const qb = new QueryBuilder<Event>('events', 'https://api.test.com', mockFetch);
+            await qb.paginate({ orderBy: ['created_at', 'id'], pageSize: 2 }).execute();
+
+            const url = getUrl();
+            expect(url).toContain('order=created_at.asc,id.asc');
+            expect(url).toContain('limit=2');
+            expect(url).not.toContain('or=');
+        });
+
+        it('filters past the cursor row', async () => {
+            const qb = new QueryBuilder<Event>('events', 'https://api.test.com', mockFetch);
+            await qb
+                .paginate({
+                    orderBy: [{ column: 'created_at', ascending: false }, 'id'],
+                    pageSize: 2,
+                    after: { created_at: '2024-01-02T00:00:00Z', id: 7 },
+                })
+                .execute();
+
+            expect(getUrl()).toContain(
+                'or=(created_at.lt.2024-01-02T00:00:00Z,and(created_at.eq.2024-01-02T00:00:00Z,id.gt.7))'
             );
         });
 
-        it('calls DELETE for delete', async () => {
-            const qb = new QueryBuilder<{ id: string }>('users', 'https://api.test.com', mockFetch);
-            await qb.eq('id', '123').delete();
+        it('uses a plain filter for a single keyset column', async () => {
+            const qb = new QueryBuilder<Event>('events', 'https://api.test.com', mockFetch);
+            await qb.paginate({ orderBy: 'id', pageSize: 10, after: { id: 42 } }).execute();
 
-            expect(mockFetch).toHaveBeenCalledWith(
-                expect.any(String),
-                expect.objectContaining({ method: 'DELETE' })
+            expect(getUrl()).toContain('id=gt.42');
+        });
+
+        it('iterates pages with the last row as cursor', async () => {
+            mockPages(
+                [{ id: 1 }, { id: 2 }],
+                [{ id: 3 }, { id: 4 }],
+                [{ id: 5 }]
             );
+            const qb = new QueryBuilder<Event>('events', 'https://api.test.com', mockFetch);
+            const pages: unknown[] = [];
+            for await (const page of qb.paginate({ orderBy: 'id', pageSize: 2 }).pages()) {
+                pages.push(page.data);
+            }
+
+            expect(pages).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }, { id: 4 }], [{ id: 5 }]]);
+            expect(getUrl(0)).not.toContain('id=gt');
+            expect(getUrl(1)).toContain('id=gt.2');
+            expect(getUrl(2)).toContain('id=gt.4');
+        });
+
+        it('does not yield an empty last page', async () => {
+            mockPages([{ id: 1 }, { id: 2 }], []);
+            const qb = new QueryBuilder<Event>('events', 'https://api.test.com', mockFetch);
+            let count = 0;
+            for await (const _page of qb.paginate({ orderBy: 'id', pageSize: 2 }).pages()) {
+                count++;
+            }
+
+            expect(count).toBe(1);
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('stops after a page with an error', async () => {
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: null,
+                error: { message: 'boom', status: 500 },
+                status: 500,
+                count: null,
+            });
+            const qb = new QueryBuilder<Event>('events', 'https://api.test.com', mockFetch);
+            const errors: unknown[] = [];
+            for await (const page of qb.paginate({ orderBy: 'id', pageSize: 2 }).pages()) {
+                errors.push(page.error?.message);
+            }
+
+            expect(errors).toEqual(['boom']);
+        });
+
+        it('pages by offset without paginate()', async () => {
+            mockPages([{ id: 1 }, { id: 2 }], [{ id: 3 }]);
+            const qb = new QueryBuilder<Event>('events', 'https://api.test.com', mockFetch);
+            const rows: unknown[] = [];
+            for await (const page of qb.order('id').pages({ pageSize: 2 })) {
+                rows.push(...(page.data ?? []));
+            }
+
+            expect(rows).toHaveLength(3);
+            expect(getUrl(0)).toContain('offset=0');
+            expect(getUrl(1)).toContain('offset=2');
+            expect(getUrl(1)).toContain('limit=2');
+        });
+
+        it('stops offset pages at the limit', async () => {
+            mockPages([{ id: 1 }, { id: 2 }], [{ id: 3 }, { id: 4 }], [{ id: 5 }]);
+            const qb = new QueryBuilder<Event>('events', 'https://api.test.com', mockFetch);
+            const rows: unknown[] = [];
+            for await (const page of qb.order('id').offset(10).limit(5).pages({ pageSize: 2 })) {
+                rows.push(...(page.data ?? []));
+            }
+
+            expect(rows).toHaveLength(5);
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+            expect(getUrl(2)).toContain('offset=14');
+            expect(getUrl(2)).toContain('limit=1');
+        });
+
+        it('makes no request past a limit of one page', async () => {
+            mockPages([{ id: 1 }, { id: 2 }]);
+            const qb = new QueryBuilder<Event>('events', 'https://api.test.com', mockFetch);
+            for await (const _page of qb.limit(2).pages({ pageSize: 2 })) {
+                // drain
+            }
+
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('restores the builder after iterating', async () => {
+            mockPages([{ id: 1 }]);
+            const qb = new QueryBuilder<Event>('events', 'https://api.test.com', mockFetch);
+            for await (const _page of qb.pages({ pageSize: 2 })) {
+                // drain
+            }
+            await qb.execute();
+
+            expect(getUrl(1)).not.toContain('offset=');
+            expect(getUrl(1)).not.toContain('limit=');
+        });
+    });
+
+    describe('single', () => {
+        const mockRows = (rows: unknown[]) =>
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: rows,
+                error: null,
+                status: 200,
+                count: null,
+            });
+
+        it('requests an object with the single-object Accept header', async () => {
+            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
+            await qb.eq('id', '1').single().execute();
+
+            const [url, options] = (mockFetch as ReturnType<typeof vi.fn>).mock.calls[0];
+            expect(options.headers['Accept']).toBe('application/vnd.pgrst.object+json');
+            expect(url).not.toContain('limit=');
+        });
+
+        it('returns the row as an object', async () => {
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: { id: '1', name: 'Test' },
+                error: null,
+                status: 200,
+                count: null,
+            });
+            const qb = new QueryBuilder<{ id: string; name: string }>('users', 'https://api.test.com', mockFetch);
+            const { data, error } = await qb.eq('id', '1').single().execute();
+
+            expect(error).toBeNull();
+            expect(data).toEqual({ id: '1', name: 'Test' });
+        });
+
+        it('unwraps a one-row array', async () => {
+            mockRows([{ id: '1' }]);
+            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
+            const { data } = await qb.single().execute();
+
+            expect(data).toEqual({ id: '1' });
+        });
+
+        it('errors when no rows or several rows match', async () => {
+            mockRows([]);
+            const none = await new QueryBuilder('users', 'https://api.test.com', mockFetch).single().execute();
+            expect(none.data).toBeNull();
+            expect(none.error?.code).toBe('PGRST116');
+
+            mockRows([{ id: '1' }, { id: '2' }]);
+            const many = await new QueryBuilder('users', 'https://api.test.com', mockFetch).single().execute();
+            expect(many.data).toBeNull();
+            expect(many.error?.code).toBe('PGRST116');
+        });
+
+        it('passes through the server error', async () => {
+            const serverError = { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116', status: 406 };
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: null,
+                error: serverError,
+                status: 406,
+                count: null,
+            });
+            const { data, error } = await new QueryBuilder('users', 'https://api.test.com', mockFetch).single().execute();
+
+            expect(data).toBeNull();
+            expect(error).toEqual(serverError);
+        });
+    });
+
+    describe('maybeSingle', () => {
+        const mockRows = (rows: unknown[]) =>
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: rows,
+                error: null,
+                status: 200,
+                count: null,
+            });
+
+        it('returns null without an error when no row matches', async () => {
+            mockRows([]);
+            const { data, error } = await new QueryBuilder('users', 'https://api.test.com', mockFetch)
+                .maybeSingle()
+                .execute();
+
+            expect(data).toBeNull();
+            expect(error).toBeNull();
+        });
+
+        it('returns the row when one matches', async () => {
+            mockRows([{ id: '1' }]);
+            const { data } = await new QueryBuilder('users', 'https://api.test.com', mockFetch).maybeSingle().execute();
+
+            expect(data).toEqual({ id: '1' });
+        });
+
+        it('errors when several rows match', async () => {
+            mockRows([{ id: '1' }, { id: '2' }]);
+            const { data, error } = await new QueryBuilder('users', 'https://api.test.com', mockFetch)
+                .maybeSingle()
+                .execute();
+
+            expect(data).toBeNull();
+            expect(error?.code).toBe('PGRST116');
+        });
+    });
+
+    describe('stream', () => {
+        const bodyOf = (json: string) =>
+            new ReadableStream<Uint8Array>({
+                start(controller) {
+                    controller.enqueue(new TextEncoder().encode(json));
+                    controller.close();
+                },
+            });
+
+        it('requests the raw body and yields parsed rows', async () => {
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: bodyOf('[{"id":"1"},{"id":"2"}]'),
+                error: null,
+                status: 200,
+                count: null,
+            });
+            const controller = new AbortController();
+            const qb = new QueryBuilder<{ id: string }>('events', 'https://api.test.com', mockFetch);
+            const { data, error } = await qb.select('id').stream({ signal: controller.signal });
+
+            const rows: unknown[] = [];
+            for await (const row of data!) {
+                rows.push(row);
+            }
+
+            expect(error).toBeNull();
+            expect(rows).toEqual([{ id: '1' }, { id: '2' }]);
+            const [url, options] = (mockFetch as ReturnType<typeof vi.fn>).mock.calls[0];
+            expect(url).toContain('select=id');
+            expect(options.responseType).toBe('stream');
+            expect(options.signal).toBe(controller.signal);
+        });
+
+        it('returns request errors without a stream', async () => {
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: null,
+                error: { message: 'permission denied', status: 401 },
+                status: 401,
+                count: null,
+            });
+            const { data, error } = await new QueryBuilder('events', 'https://api.test.com', mockFetch).stream();
+
+            expect(data).toBeNull();
+            expect(error?.message).toBe('permission denied');
+        });
+    });
+
+    describe('response formats', () => {
+        const getHeaders = () => (mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][1].headers;
+
+        it('requests CSV', async () => {
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: 'id,name\n1,Test\n',
+                error: null,
+                status: 200,
+                count: null,
+            });
+            const { data } = await new QueryBuilder('users', 'https://api.test.com', mockFetch).select('id, name').csv();
+
+            expect(getHeaders()['Accept']).toBe('text/csv');
+            expect(data).toBe('id,name\n1,Test\n');
+        });
+
+        it('requests GeoJSON', async () => {
+            const collection = { type: 'FeatureCollection', features: [] };
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: collection,
+                error: null,
+                status: 200,
+                count: null,
+            });
+            const { data } = await new QueryBuilder('parks', 'https://api.test.com', mockFetch).geojson();
+
+            expect(getHeaders()['Accept']).toBe('application/geo+json');
+            expect(data).toEqual(collection);
+        });
+
+        it('requests any media type with returns()', async () => {
+            await new QueryBuilder('rpc/sitemap', 'https://api.test.com', mockFetch).returns('text/xml').execute();
+
+            expect(getHeaders()['Accept']).toBe('text/xml');
+        });
+
+        it('keeps the requested format over single()', async () => {
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: 'id\n1\n',
+                error: null,
+                status: 200,
+                count: null,
+            });
+            const { data } = await new QueryBuilder('users', 'https://api.test.com', mockFetch).single().csv().execute();
+
+            expect(getHeaders()['Accept']).toBe('text/csv');
+            expect(data).toBe('id\n1\n');
+        });
+
+        it('streams CSV as text chunks', async () => {
+            const encoder = new TextEncoder();
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: new ReadableStream<Uint8Array>({
+                    start(controller) {
+                        controller.enqueue(encoder.encode('id,name\n1,'));
+                        controller.enqueue(encoder.encode('Test\n'));
+                        controller.close();
+                    },
+                }),
+                error: null,
+                status: 200,
+                count: null,
+            });
+            const { data } = await new QueryBuilder('users', 'https://api.test.com', mockFetch).csv().stream();
+
+            let text = '';
+            for await (const chunk of data!) {
+                text += chunk;
+            }
+
+            expect(getHeaders()['Accept']).toBe('text/csv');
+            expect(text).toBe('id,name\n1,Test\n');
+        });
+    });
+
+    describe('explain', () => {
+        const getAccept = () => (mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][1].headers['Accept'];
+
+        it('requests a text plan by default', async () => {
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: 'Seq Scan on orders  (cost=0.00..1.01 rows=1 width=40)',
+                error: null,
+                status: 200,
+                count: null,
+            });
+            const { data } = await new QueryBuilder('orders', 'https://api.test.com', mockFetch).explain();
+
+            expect(getAccept()).toBe('application/vnd.pgrst.plan+text; for="application/json"');
+            expect(data).toContain('Seq Scan');
+        });
+
+        it('requests a JSON plan with options', async () => {
+            const plan = [{ Plan: { 'Node Type': 'Seq Scan' }, 'Execution Time': 0.2 }];
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: plan,
+                error: null,
+                status: 200,
+                count: null,
+            });
+            const { data } = await new QueryBuilder('orders', 'https://api.test.com', mockFetch)
+                .eq('status', 'open')
+                .explain({ analyze: true, verbose: true, buffers: true, format: 'json' });
+
+            expect(getAccept()).toBe(
+                'application/vnd.pgrst.plan+json; for="application/json"; options=analyze|verbose|buffers'
+            );
+            expect(data).toEqual(plan);
+        });
+
+        it('explains the requested format', async () => {
+            await new QueryBuilder('orders', 'https://api.test.com', mockFetch).single().explain().execute();
+            expect(getAccept()).toBe('application/vnd.pgrst.plan+text; for="application/vnd.pgrst.object+json"');
+        });
+    });
+
+    describe('awaiting', () => {
+        it('executes when awaited without execute()', async () => {
+            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
+            const { data, error } = await qb.select('id, name').eq('id', '1');
+
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            expect(error).toBeNull();
+            expect(data).toEqual([{ id: '1', name: 'Test' }]);
+        });
+
+        it('awaits single() as an object', async () => {
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: [{ id: '1' }],
+                error: null,
+                status: 200,
+                count: null,
+            });
+            const { data } = await new QueryBuilder<{ id: string }>('users', 'https://api.test.com', mockFetch).single();
+
+            expect(data?.id).toBe('1');
+        });
+    });
+
+    describe('complex queries', () => {
+        it('builds complete query with all options', async () => {
+            const qb = new QueryBuilder<{ role: string; age: number; name: string; created_at: string }>(
+                'users',
+                'https://api.test.com',
+                mockFetch
+            );
+            await qb
+                .select('id, name, email')
+                .eq('role', 'admin')
+                .gt('age', 18)
+                .order('created_at', { ascending: false })
+                .limit(10)
+                .offset(0)
+                .execute();
+
+            const callUrl = (mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][0] as string;
+            expect(callUrl).toContain('select=id%2C+name%2C+email');
+            expect(callUrl).toContain('role=eq.admin');
+            expect(callUrl).toContain('age=gt.18');
+            expect(callUrl).toContain('order=created_at.desc');
+            expect(callUrl).toContain('limit=10');
+        });
+    });
+
+    describe('CRUD operations', () => {
+        it('calls POST for insert', async () => {
+            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
+            await qb.insert({ name: 'John', email: 'john@example.com' });
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://api.test.com/rest/v1/users',
+                expect.objectContaining({ method: 'POST' })
+            );
+        });
+
+        it('calls PATCH for update', async () => {
+            const qb = new QueryBuilder<{ id: string }>('users', 'https://api.test.com', mockFetch);
+            await qb.eq('id', '123').update({ name: 'Jane' });
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.any(String),
+                expect.objectContaining({ method: 'PATCH' })
+            );
+        });
+
+        it('calls DELETE for delete', async () => {
+            const qb = new QueryBuilder<{ id: string }>('users', 'https://api.test.com', mockFetch);
+            await qb.eq('id', '123').delete();
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.any(String),
+                expect.objectContaining({ method: 'DELETE' })
+            );
+        });
+    });
+
+    describe('mutation options', () => {
+        const getCall = (index = 0) => (mockFetch as ReturnType<typeof vi.fn>).mock.calls[index];
+
+        it('returns representation by default', async () => {
+            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
+            await qb.insert({ name: 'John' });
+
+            expect(getCall()[1].headers.Prefer).toBe('return=representation');
+        });
+
+        it('sends return=minimal for insert, update and delete', async () => {
+            const qb = new QueryBuilder<{ id: string; name: string }>('users', 'https://api.test.com', mockFetch);
+            await qb.insert({ name: 'John' }, { returning: 'minimal' });
+            await qb.eq('id', '1').update({ name: 'Jane' }, { returning: 'minimal' });
+            await qb.delete({ returning: 'minimal' });
+
+            expect(getCall(0)[1].headers.Prefer).toBe('return=minimal');
+            expect(getCall(1)[1].headers.Prefer).toBe('return=minimal');
+            expect(getCall(2)[1].headers.Prefer).toBe('return=minimal');
+        });
+
+        it('sends missing=default when defaultToNull is false', async () => {
+            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
+            await qb.insert({ name: 'John' }, { defaultToNull: false });
+
+            expect(getCall()[1].headers.Prefer).toBe('return=representation,missing=default');
+        });
+
+        it('lists the union of columns for bulk inserts', async () => {
+            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
+            await qb.insert([{ name: 'John' }, { name: 'Jane', email: 'jane@example.com' }]);
+
+            const url = new URL(getCall()[0]);
+            expect(url.searchParams.get('columns')).toBe('name,email');
+        });
+
+        it('merges duplicates on upsert by default', async () => {
+            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
+            await qb.upsert({ id: '1', name: 'John' });
+
+            expect(getCall()[0]).toBe('https://api.test.com/rest/v1/users');
+            expect(getCall()[1].headers.Prefer).toBe('return=representation,resolution=merge-duplicates');
+        });
+
+        it('ignores duplicates on upsert when asked', async () => {
+            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
+            await qb.upsert({ id: '1' }, { ignoreDuplicates: true, returning: 'minimal' });
+
+            expect(getCall()[1].headers.Prefer).toBe('return=minimal,resolution=ignore-duplicates');
+        });
+
+        it('sends single and multi-column onConflict targets', async () => {
+            const qb = new QueryBuilder('memberships', 'https://api.test.com', mockFetch);
+            await qb.upsert({ team_id: 1, user_id: 2 }, { onConflict: 'id' });
+            await qb.upsert({ team_id: 1, user_id: 2 }, { onConflict: ['team_id', 'user_id'] });
+
+            expect(new URL(getCall(0)[0]).searchParams.get('on_conflict')).toBe('id');
+            expect(new URL(getCall(1)[0]).searchParams.get('on_conflict')).toBe('team_id,user_id');
+        });
+
+        it('combines upsert options with defaultToNull and count', async () => {
+            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
+            await qb.upsert([{ id: '1' }], { defaultToNull: false, count: 'exact' });
+
+            expect(getCall()[1].headers.Prefer).toBe(
+                'return=representation,resolution=merge-duplicates,missing=default,count=exact'
+            );
+        });
+    });
+
+    describe('bulk writes', () => {
+        const rows = (n: number) => Array.from({ length: n }, (_, i) => ({ id: i }));
+        const echoRows = () =>
+            vi.fn().mockImplementation(async (_url: string, init: { body: string }) => ({
+                data: JSON.parse(init.body),
+                error: null,
+                status: 201,
+            }));
+        const noDelay = { initialDelay: 0 };
+
+        it('splits rows into chunks and returns them in input order', async () => {
+            const fetch = echoRows();
+            const qb = new QueryBuilder('events', 'https://api.test.com', fetch);
+            const { data, error } = await qb.insertMany(rows(5), { chunkSize: 2 });
+
+            expect(error).toBeNull();
+            expect(fetch).toHaveBeenCalledTimes(3);
+            expect(fetch.mock.calls.map(([, init]) => JSON.parse(init.body).length)).toEqual([2, 2, 1]);
+            expect(data).toEqual({
+                rows: rows(5),
+                writtenRows: 5,
+                totalRows: 5,
+                totalChunks: 3,
+                failures: [],
+            });
+        });
+
+        it('sends no request for an empty input', async () => {
+            const qb = new QueryBuilder('events', 'https://api.test.com', mockFetch);
+            const { data, error } = await qb.insertMany([]);
+
+            expect(mockFetch).not.toHaveBeenCalled();
+            expect(error).toBeNull();
+            expect(data).toMatchObject({ rows: [], writtenRows: 0, totalChunks: 0 });
+        });
+
+        it('keeps at most `concurrency` chunks in flight', async () => {
+            let inFlight = 0;
+            let maxInFlight = 0;
+            const fetch = vi.fn().mockImplementation(async () => {
+                inFlight++;
+                maxInFlight = Math.max(maxInFlight, inFlight);
+                await new Promise((resolve) => setTimeout(resolve, 1));
+                inFlight--;
+                return { data: [], error: null, status: 201 };
+            });
+            const qb = new QueryBuilder('events', 'https://api.test.com', fetch);
+            await qb.insertMany(rows(10), { chunkSize: 1, concurrency: 3 });
+
+            expect(fetch).toHaveBeenCalledTimes(10);
+            expect(maxInFlight).toBe(3);
+        });
+
+        it('retries retryable failures', async () => {
+            const fetch = echoRows().mockResolvedValueOnce({
+                data: null,
+                error: { message: 'Service unavailable', status: 503 },
+                status: 503,
+            });
+            const qb = new QueryBuilder('events', 'https://api.test.com', fetch);
+            const { data, error } = await qb.insertMany(rows(2), { chunkSize: 2, retry: noDelay });
+
+            expect(fetch).toHaveBeenCalledTimes(2);
+            expect(error).toBeNull();
+            expect(data!.rows).toEqual(rows(2));
+        });
+
+        it('reports chunks that still fail with their rows', async () => {
+            const fetch = echoRows().mockImplementation(async (_url: string, init: { body: string }) => {
+                const chunk = JSON.parse(init.body);
+                return chunk[0].id === 2
+                    ? { data: null, error: { message: 'duplicate key', status: 409, code: '23505' }, status: 409 }
+                    : { data: chunk, error: null, status: 201 };
+            });
+            const qb = new QueryBuilder('events', 'https://api.test.com', fetch);
+            const { data, error } = await qb.insertMany(rows(5), { chunkSize: 2, retry: noDelay });
+
+            // 409 is not retryable: one attempt per chunk
+            expect(fetch).toHaveBeenCalledTimes(3);
+            expect(error).toEqual({ message: '1 of 3 chunks failed (2 rows)', code: 'BULK_WRITE_FAILED' });
+            expect(data!.rows).toEqual([{ id: 0 }, { id: 1 }, { id: 4 }]);
+            expect(data!.writtenRows).toBe(3);
+            expect(data!.failures).toEqual([
+                {
+                    chunk: 1,
+                    from: 2,
+                    to: 3,
+                    rows: [{ id: 2 }, { id: 3 }],
+                    error: { message: 'duplicate key', status: 409, code: '23505' },
+                    attempts: 1,
+                },
+            ]);
+        });
+
+        it('gives up after the configured attempts, or at once when retry is false', async () => {
+            const fetch = vi.fn().mockResolvedValue({
+                data: null,
+                error: { message: 'fetch failed', code: 'NETWORK_ERROR' },
+                status: 0,
+            });
+            const qb = new QueryBuilder('events', 'https://api.test.com', fetch);
+
+            const retried = await qb.insertMany(rows(1), { retry: { ...noDelay, maxAttempts: 2 } });
+            expect(retried.data!.failures[0].attempts).toBe(2);
+
+            const once = await qb.insertMany(rows(1), { retry: false });
+            expect(once.data!.failures[0].attempts).toBe(1);
+            expect(fetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('reports progress after each chunk', async () => {
+            const fetch = echoRows().mockResolvedValueOnce({
+                data: null,
+                error: { message: 'bad row', status: 400 },
+                status: 400,
+            });
+            const onProgress = vi.fn();
+            const qb = new QueryBuilder('events', 'https://api.test.com', fetch);
+            await qb.insertMany(rows(3), { chunkSize: 1, concurrency: 1, onProgress });
+
+            expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+                { completedChunks: 1, totalChunks: 3, writtenRows: 0, failedRows: 1, totalRows: 3 },
+                { completedChunks: 2, totalChunks: 3, writtenRows: 1, failedRows: 1, totalRows: 3 },
+                { completedChunks: 3, totalChunks: 3, writtenRows: 2, failedRows: 1, totalRows: 3 },
+            ]);
+        });
+
+        it('sends upsert options with every chunk', async () => {
+            const fetch = echoRows();
+            const qb = new QueryBuilder('events', 'https://api.test.com', fetch);
+            await qb.upsertMany(rows(3), { chunkSize: 2, onConflict: 'id', returning: 'minimal' });
+
+            expect(fetch).toHaveBeenCalledTimes(2);
+            for (const [url, init] of fetch.mock.calls) {
+                expect(new URL(url).searchParams.get('on_conflict')).toBe('id');
+                expect(init.headers.Prefer).toBe('return=minimal,resolution=merge-duplicates');
+            }
+        });
+    });
+
+    describe('optimistic concurrency', () => {
+        type Doc = { id: number; version: number; title: string; body: string };
+        const ok = (data: unknown, etag?: string) => ({ data, error: null, status: 200, etag });
+        const docs = () => new QueryBuilder<Doc>('documents', 'https://api.test.com', fetch).eq('id', 1);
+        let fetch: ReturnType<typeof vi.fn>;
+
+        beforeEach(() => {
+            fetch = vi.fn();
+        });
+
+        it('only updates the version read, incrementing it', async () => {
+            const row = { id: 1, version: 3, title: 'New', body: '' };
+            fetch.mockResolvedValueOnce(ok([row]));
+
+            const { data, error } = await docs().update(
+                { title: 'New' },
+                { concurrency: { column: 'version', expected: 2 } }
+            );
+
+            const [url, init] = fetch.mock.calls[0];
+            expect(new URL(url).searchParams.getAll('version')).toEqual(['eq.2']);
+            expect(new URL(url).searchParams.get('id')).toBe('eq.1');
+            expect(JSON.parse(init.body)).toEqual({ title: 'New', version: 3 });
+            expect(error).toBeNull();
+            expect(data).toEqual([row]);
+        });
+
+        it('leaves non-numeric versions and payload versions alone', async () => {
+            fetch.mockResolvedValue(ok([{ id: 1 }]));
+
+            await docs().update({ title: 'New' }, {
+                concurrency: { column: 'title', expected: 'Old' },
+            });
+            await docs().update({ version: 10 }, { concurrency: { column: 'version', expected: 2 } });
+
+            expect(JSON.parse(fetch.mock.calls[0][1].body)).toEqual({ title: 'New' });
+            expect(new URL(fetch.mock.calls[0][0]).searchParams.get('title')).toBe('eq.Old');
+            expect(JSON.parse(fetch.mock.calls[1][1].body)).toEqual({ version: 10 });
+        });
+
+        it('returns a CONFLICT error with the current row', async () => {
+            const current = { id: 1, version: 5, title: 'Theirs', body: '' };
+            fetch.mockResolvedValueOnce(ok([])).mockResolvedValueOnce(ok([current]));
+
+            const { data, error } = await docs().update(
+                { title: 'Mine' },
+                { concurrency: { column: 'version', expected: 2 } }
+            );
+
+            expect(data).toBeNull();
+            expect(error).toEqual({
+                message: 'The row was changed by another request',
+                status: 409,
+                code: 'CONFLICT',
+                current,
+            });
+            expect(isConflictError<Doc>(error) && error.current?.title).toBe('Theirs');
+            expect(fetch.mock.calls[1][1].method).toBe('GET');
+            expect(new URL(fetch.mock.calls[1][0]).searchParams.has('version')).toBe(false);
+        });
+
+        it('returns no rows without a conflict when nothing matches', async () => {
+            fetch.mockResolvedValueOnce(ok([])).mockResolvedValueOnce(ok([]));
+
+            const { data, error } = await docs().update(
+                { title: 'Mine' },
+                { concurrency: { column: 'version', expected: 2 } }
+            );
+
+            expect(error).toBeNull();
+            expect(data).toEqual([]);
+        });
+
+        it('retries with the merged payload against the current version', async () => {
+            const current = { id: 1, version: 5, title: 'Theirs', body: 'Their body' };
+            fetch
+                .mockResolvedValueOnce(ok([]))
+                .mockResolvedValueOnce(ok([current]))
+                .mockResolvedValueOnce(ok([{ ...current, version: 6, title: 'Mine' }]));
+            const merge = vi.fn((_current: Doc, attempted: Partial<Doc>) => ({ ...attempted }));
+
+            const { data, error } = await docs().update(
+                { title: 'Mine' },
+                { returning: 'minimal', concurrency: { column: 'version', expected: 2, merge } }
+            );
+
+            expect(merge).toHaveBeenCalledWith(current, { title: 'Mine' });
+            const [url, init] = fetch.mock.calls[2];
+            expect(new URL(url).searchParams.get('version')).toBe('eq.5');
+            expect(JSON.parse(init.body)).toEqual({ title: 'Mine', version: 6 });
+            // Representation is needed to detect conflicts, but not returned
+            expect(init.headers.Prefer).toBe('return=representation');
+            expect(error).toBeNull();
+            expect(data).toBeNull();
+        });
+
+        it('increments the version of a merged payload that spreads the current row', async () => {
+            const current = { id: 1, version: 5, title: 'Theirs', body: 'Their body' };
+            fetch
+                .mockResolvedValueOnce(ok([]))
+                .mockResolvedValueOnce(ok([current]))
+                .mockResolvedValueOnce(ok([{ ...current, version: 6, title: 'Mine' }]));
+
+            await docs().update(
+                { title: 'Mine' },
+                { concurrency: { column: 'version', expected: 4, merge: (current, mine) => ({ ...current, ...mine }) } }
+            );
+
+            const [url, init] = fetch.mock.calls[2];
+            expect(new URL(url).searchParams.get('version')).toBe('eq.5');
+            expect(JSON.parse(init.body)).toEqual({ id: 1, version: 6, title: 'Mine', body: 'Their body' });
+        });
+
+        it('checks a null version with is.null', async () => {
+            type Note = { id: number; updated_at: string | null; title: string };
+            fetch.mockResolvedValueOnce(ok([{ id: 1, updated_at: '2026-01-01', title: 'New' }]));
+
+            await new QueryBuilder<Note>('notes', 'https://api.test.com', fetch).eq('id', 1).update(
+                { title: 'New', updated_at: '2026-01-01' },
+                { concurrency: { column: 'updated_at', expected: null } }
+            );
+
+            expect(new URL(fetch.mock.calls[0][0]).searchParams.get('updated_at')).toBe('is.null');
+        });
+
+        it('gives up when merge returns null or retries run out', async () => {
+            const current = { id: 1, version: 5, title: 'Theirs', body: '' };
+            fetch.mockImplementation(async (_url: string, init: { method: string }) =>
+                ok(init.method === 'GET' ? [current] : [])
+            );
+
+            const declined = await docs().update(
+                { title: 'Mine' },
+                { concurrency: { column: 'version', expected: 2, merge: () => null } }
+            );
+            expect(declined.error?.code).toBe('CONFLICT');
+            expect(fetch).toHaveBeenCalledTimes(2);
+
+            fetch.mockClear();
+            const exhausted = await docs().update(
+                { title: 'Mine' },
+                { concurrency: { column: 'version', expected: 2, merge: (_c, a) => a, maxRetries: 2 } }
+            );
+            expect(exhausted.error?.code).toBe('CONFLICT');
+            // three PATCH + GET rounds: the first try and two retries
+            expect(fetch).toHaveBeenCalledTimes(6);
+        });
+
+        it('sends If-Match and retries with the current ETag', async () => {
+            const current = { id: 1, version: 5, title: 'Theirs', body: '' };
+            fetch
+                .mockResolvedValueOnce({ data: null, error: { message: 'Precondition Failed', status: 412 }, status: 412 })
+                .mockResolvedValueOnce(ok([current], 'W/"5"'))
+                .mockResolvedValueOnce(ok([{ ...current, title: 'Mine' }]));
+
+            const { data, error } = await docs().update(
+                { title: 'Mine' },
+                { concurrency: { etag: 'W/"2"', merge: (_c, attempted) => attempted } }
+            );
+
+            expect(fetch.mock.calls[0][1].headers['If-Match']).toBe('W/"2"');
+            expect(fetch.mock.calls[2][1].headers['If-Match']).toBe('W/"5"');
+            expect(JSON.parse(fetch.mock.calls[2][1].body)).toEqual({ title: 'Mine' });
+            expect(error).toBeNull();
+            expect(data).toEqual([{ ...current, title: 'Mine' }]);
+        });
+
+        it('reports a deleted row as a conflict in ETag mode', async () => {
+            fetch
+                .mockResolvedValueOnce({ data: null, error: { message: 'Precondition Failed', status: 412 }, status: 412 })
+                .mockResolvedValueOnce(ok([]));
+
+            const { error } = await docs().update({ title: 'Mine' }, { concurrency: { etag: 'W/"2"' } });
+
+            expect(error).toMatchObject({ code: 'CONFLICT', current: null });
+        });
+
+        it('passes other errors through', async () => {
+            fetch.mockResolvedValueOnce({ data: null, error: { message: 'permission denied', status: 403 }, status: 403 });
+
+            const { error } = await docs().update(
+                { title: 'Mine' },
+                { concurrency: { column: 'version', expected: 2 } }
+            );
+
+            expect(error).toEqual({ message: 'permission denied', status: 403 });
+            expect(fetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('safe mutations', () => {
+        it('refuses update and delete without filters', async () => {
+            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
+
+            const updated = await qb.update({ name: 'Jane' });
+            const deleted = await qb.delete();
+
+            expect(mockFetch).not.toHaveBeenCalled();
+            expect(updated).toEqual({
+                data: null,
+                error: {
+                    message: 'update() without filters would change every row; add a filter or call allRows()',
+                    code: 'UNFILTERED_MUTATION',
+                },
+                count: null,
+            });
+            expect(deleted.error?.code).toBe('UNFILTERED_MUTATION');
+        });
+
+        it('does not count filters on embedded resources', async () => {
+            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
+            const dotted = await qb.eq('posts.published', true).delete();
+            const option = await new QueryBuilder('users', 'https://api.test.com', mockFetch)
+                .eq('published', true, { referencedTable: 'posts' })
+                .delete();
+
+            expect(dotted.error?.code).toBe('UNFILTERED_MUTATION');
+            expect(option.error?.code).toBe('UNFILTERED_MUTATION');
+        });
+
+        it('runs unfiltered mutations after allRows()', async () => {
+            const qb = new QueryBuilder('sessions', 'https://api.test.com', mockFetch);
+            const { error } = await qb.allRows().delete();
+
+            expect(error).toBeNull();
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.stringContaining('/rest/v1/sessions'),
+                expect.objectContaining({ method: 'DELETE' })
+            );
+        });
+
+        it('can be turned off', async () => {
+            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch, 'public', {
+                safeMutations: false,
+            });
+            const { error } = await qb.update({ active: false });
+
+            expect(error).toBeNull();
+            expect(mockFetch).toHaveBeenCalled();
+        });
+
+        it('limits ordered updates and deletes', async () => {
+            const qb = new QueryBuilder<{ status: string; created_at: string }>('jobs', 'https://api.test.com', mockFetch);
+            await qb.eq('status', 'done').order('created_at').limit(100).delete();
+
+            const url = new URL((mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][0]);
+            expect(url.searchParams.get('order')).toBe('created_at.asc');
+            expect(url.searchParams.get('limit')).toBe('100');
+        });
+
+        it('refuses a limit without an order', async () => {
+            const qb = new QueryBuilder<{ status: string }>('jobs', 'https://api.test.com', mockFetch);
+            const { error } = await qb.eq('status', 'done').limit(100).update({ status: 'archived' });
+
+            expect(mockFetch).not.toHaveBeenCalled();
+            expect(error).toEqual({
+                message: 'update() with limit() needs an order() to choose the rows',
+                code: 'LIMIT_WITHOUT_ORDER',
+            });
+        });
+    });
+
+    describe('cache', () => {
+        let cache: QueryCache;
+        const users = () =>
+            new QueryBuilder<{ id: string; role: string }>('users', 'https://api.test.com', mockFetch, 'public', {
+                cache,
+            });
+
+        beforeEach(() => {
+            cache = new QueryCache();
+        });
+
+        it('serves repeated queries from the cache', async () => {
+            const first = await users().select('id').eq('role', 'admin');
+            const second = await users().select('id').eq('role', 'admin');
+
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            expect(second).toEqual(first);
+        });
+
+        it('keys entries on the whole query', async () => {
+            await users().select('id').eq('role', 'admin');
+            await users().select('id').eq('role', 'owner');
+            await users().select('id, role').eq('role', 'admin');
+            await users().select('id').eq('role', 'admin').order('id').limit(10);
+
+            expect(mockFetch).toHaveBeenCalledTimes(4);
+        });
+
+        it('shares a cached array between execute() and single()', async () => {
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValue({ data: [{ id: '1' }], error: null, status: 200 });
+
+            await users().select('id').eq('id', '1');
+            const { data } = await users().select('id').eq('id', '1').maybeSingle();
+
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            expect(data).toEqual({ id: '1' });
+        });
+
+        it('is invalidated by writes to the table', async () => {
+            await users().select('*');
+            await users().insert({ role: 'admin' });
+            await users().select('*');
+            await users().eq('id', '1').update({ role: 'owner' });
+            await users().select('*');
+            await users().eq('id', '1').delete();
+            await users().select('*');
+
+            const gets = (mockFetch as ReturnType<typeof vi.fn>).mock.calls.filter(([, init]) => init.method === 'GET');
+            expect(gets).toHaveLength(4);
+        });
+
+        it('is invalidated by writes to embedded tables', async () => {
+            const posts = new QueryBuilder('posts', 'https://api.test.com', mockFetch, 'public', { cache });
+
+            await users().select('id, author:profiles!author_id(name), posts(title, comments(count))');
+            await posts.insert({ title: 'Hello' });
+            await users().select('id, author:profiles!author_id(name), posts(title, comments(count))');
+
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('is invalidated by writes to spread embeds', async () => {
+            const profiles = new QueryBuilder('profiles', 'https://api.test.com', mockFetch, 'public', { cache });
+
+            await users().select('id, ...profiles(bio)');
+            await profiles.eq('id', '1').update({ bio: 'Hi' });
+            await users().select('id, ...profiles(bio)');
+
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('is invalidated by writes to tables embedded through a foreign key column', async () => {
+            const posts = () =>
+                new QueryBuilder<{ id: number; author_id: string }>('posts', 'https://api.test.com', mockFetch, 'public', {
+                    cache,
+                });
+
+            await posts().select('id, author:author_id(name)');
+            await users().eq('id', '1').update({ role: 'owner' });
+            await posts().select('id, author:author_id(name)');
+
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('is not invalidated by writes to other tables without embeds', async () => {
+            const posts = new QueryBuilder('posts', 'https://api.test.com', mockFetch, 'public', { cache });
+
+            await users().select('id, total:amount.sum()');
+            await posts.insert({ title: 'Hello' });
+            await users().select('id, total:amount.sum()');
+
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('does not cache function calls or plans', async () => {
+            const rpc = () =>
+                new QueryBuilder('rpc/active_users', 'https://api.test.com', mockFetch, 'public', {
+                    cache,
+                    rpc: { args: {}, get: true },
+                });
+
+            await rpc();
+            await rpc();
+            await users().explain();
+            await users().explain();
+
+            expect(mockFetch).toHaveBeenCalledTimes(4);
+        });
+    });
+
+    describe('live', () => {
+        type Task = { id: number; title: string; done: boolean; priority: number };
+        let channel: RealtimeChannel;
+        const tasks = () =>
+            new QueryBuilder<Task>('tasks', 'https://api.test.com', mockFetch, 'public', {
+                channel: () => channel,
+            });
+        const change = (
+            type: RealtimePayload['type'],
+            row: Partial<Task> | null,
+            old: Partial<Task> | null = null,
+            table = 'tasks'
+        ): RealtimePayload => ({
+            type,
+            table,
+            schema: 'public',
+            commit_timestamp: '2026-01-01T00:00:00Z',
+            new: row,
+            old,
+        });
+        const mockRows = (...results: Task[][]) => {
+            for (const rows of results) {
+                (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ data: rows, error: null, status: 200 });
+            }
+        };
+        const task = (id: number, priority: number, done = false): Task => ({ id, title: `Task ${id}`, done, priority });
+
+        beforeEach(() => {
+            channel = new RealtimeChannel('tasks', vi.fn(), vi.fn(), vi.fn());
+        });
+
+        it('emits the initial result and applies changes locally', async () => {
+            mockRows([task(1, 1), task(2, 5)]);
+            const callback = vi.fn();
+
+            tasks().select('*').eq('done', false).order('priority').live(callback);
+            await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(1));
+
+            channel.dispatch(change('INSERT', task(3, 3)));
+            channel.dispatch(change('INSERT', task(4, 2, true)));
+            channel.dispatch(change('UPDATE', task(1, 9), { id: 1 }));
+            channel.dispatch(change('DELETE', null, { id: 2 }));
+            channel.dispatch(change('INSERT', task(5, 0), null, 'projects'));
+
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            expect(callback.mock.calls.map(([response]) => response.data.map((row: Task) => row.id))).toEqual([
+                [1, 2],
+                [1, 3, 2],
+                [1, 3, 2],
+                [3, 2, 1],
+                [3, 1],
+            ]);
+        });
+
+        it('subscribes to the table channel', () => {
+            const channelFor = vi.fn(() => channel);
+            const subscribe = vi.spyOn(channel, 'subscribe');
+
+            new QueryBuilder('tasks', 'https://api.test.com', mockFetch, 'public', { channel: channelFor }).live(vi.fn());
+
+            expect(channelFor).toHaveBeenCalledWith('tasks');
+            expect(subscribe).toHaveBeenCalled();
+        });
+
+        it('runs the query again when a row leaves a limited result', async () => {
+            mockRows([task(1, 1), task(2, 5)], [task(2, 5), task(7, 6)]);
+            const callback = vi.fn();
+
+            tasks().select('*').order('priority').limit(2).live(callback);
+            await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(1));
+            channel.dispatch(change('DELETE', null, { id: 1 }));
+            await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(2));
+
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            expect(callback.mock.calls[1][0].data).toEqual([task(2, 5), task(7, 6)]);
+        });
+
+        it('runs the query again when changes cannot be applied locally', async () => {
+            mockRows([task(1, 1)], [task(1, 1), task(2, 2)]);
+            const callback = vi.fn();
+
+            tasks().select('id, title, project:projects(name)').live(callback);
+            await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(1));
+            channel.dispatch(change('INSERT', task(2, 2)));
+            await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(2));
+
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('applies changes that arrive while the query runs', async () => {
+            let resolve!: (value: unknown) => void;
+            (mockFetch as ReturnType<typeof vi.fn>).mockReturnValueOnce(new Promise((r) => (resolve = r)));
+            const callback = vi.fn();
+
+            tasks().select('*').order('priority').live(callback);
+            channel.dispatch(change('INSERT', task(2, 2)));
+            channel.dispatch(change('UPDATE', task(1, 3), { id: 1 }));
+            resolve({ data: [task(1, 1)], error: null, status: 200 });
+            await vi.waitFor(() => expect(callback).toHaveBeenCalled());
+
+            expect(callback).toHaveBeenCalledTimes(1);
+            expect(callback.mock.calls[0][0].data).toEqual([task(2, 2), task(1, 3)]);
+        });
+
+        it('reads past the cache', async () => {
+            const cache = new QueryCache();
+            mockRows([task(1, 1)], [task(1, 1), task(2, 2)]);
+            const query = () =>
+                new QueryBuilder<Task>('tasks', 'https://api.test.com', mockFetch, 'public', {
+                    cache,
+                    channel: () => channel,
+                }).select('*');
+
+            await query();
+            const callback = vi.fn();
+            query().live(callback);
+            await vi.waitFor(() => expect(callback).toHaveBeenCalled());
+
+            expect(callback.mock.calls[0][0].data).toHaveLength(2);
+        });
+
+        it('passes errors to the callback', async () => {
+            (mockFetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                data: null,
+                error: { message: 'permission denied', status: 403 },
+                status: 403,
+            });
+            const callback = vi.fn();
+
+            tasks().select('*').live(callback);
+            await vi.waitFor(() => expect(callback).toHaveBeenCalled());
+
+            expect(callback.mock.calls[0][0].error).toMatchObject({ message: 'permission denied' });
+        });
+
+        it('stops listening on unsubscribe', async () => {
+            mockRows([task(1, 1)]);
+            const callback = vi.fn();
+            const unsubscribe = vi.spyOn(channel, 'unsubscribe');
+
+            const live = tasks().select('*').live(callback);
+            await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(1));
+            live.unsubscribe();
+            channel.dispatch(change('INSERT', task(2, 2)));
+
+            expect(callback).toHaveBeenCalledTimes(1);
+            expect(channel.hasHandlers()).toBe(false);
+            expect(unsubscribe).toHaveBeenCalledTimes(1);
+        });
+
+        it('keeps the channel while other handlers use it', async () => {
+            const unsubscribe = vi.spyOn(channel, 'unsubscribe');
+            channel.on('INSERT', vi.fn());
+
+            tasks().select('*').live(vi.fn()).unsubscribe();
+
+            expect(unsubscribe).not.toHaveBeenCalled();
+        });
+
+        it('reports an error without realtime', () => {
+            const callback = vi.fn();
+
+            new QueryBuilder('tasks', 'https://api.test.com', mockFetch).live(callback).unsubscribe();
+
+            expect(callback).toHaveBeenCalledWith({
+                data: null,
+                error: expect.objectContaining({ code: 'REALTIME_UNAVAILABLE' }),
+                count: null,
+            });
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('count', () => {
+        it('sends Prefer count header and returns the count', async () => {
+            mockFetch = vi.fn().mockResolvedValue({
+                data: [{ id: '1' }],
+                error: null,
+                status: 200,
+                count: 120,
+            });
+
+            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
+            const result = await qb.select('id', { count: 'exact' }).limit(1).execute();
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.any(String),
+                expect.objectContaining({
+                    method: 'GET',
+                    headers: expect.objectContaining({ Prefer: 'count=exact' }),
+                })
+            );
+            expect(result.count).toBe(120);
+        });
+
+        it('uses HEAD for head-only counts', async () => {
+            mockFetch = vi.fn().mockResolvedValue({ data: null, error: null, status: 200, count: 7 });
+
+            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
+            const result = await qb.select('*', { count: 'planned', head: true }).execute();
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.any(String),
+                expect.objectContaining({
+                    method: 'HEAD',
+                    headers: expect.objectContaining({ Prefer: 'count=planned' }),
+                })
+            );
+            expect(result.data).toBeNull();
+            expect(result.count).toBe(7);
+        });
+
+        it('does not send Prefer without a count option', async () => {
+            const qb = new QueryBuilder('users', 'https://api.test.com', mockFetch);
+            await qb.select('id').execute();
+
+            const options = (mockFetch as ReturnType<typeof vi.fn>).mock.calls[0][1];
+            expect(options.headers).not.toHaveProperty('Prefer');
+        });
+
+        it('adds count to mutation Prefer headers', async () => {
+            const qb = new QueryBuilder<{ id: string }>('users', 'https://api.test.com', mockFetch);
+            await qb.insert({ id: '1' }, { count: 'exact' });
+            await qb.eq('id', '1').update({ id: '2' }, { count: 'estimated' });
+            await qb.delete({ count: 'exact' });
+
+            const calls = (mockFetch as ReturnType<typeof vi.fn>).mock.calls;
+            expect(calls[0][1].headers.Prefer).toBe('return=representation,count=exact');
+            expect(calls[1][1].headers.Prefer).toBe('return=representation,count=estimated');
+            expect(calls[2][1].headers.Prefer).toBe('return=representation,count=exact');
         });
     });
 
@@ -153,6 +153,17 @@ describe('RealtimeChannel', () => {
             expect(handler1).not.toHaveBeenCalled();
             expect(handler2).not.toHaveBeenCalled();
         });
+
+        it('leaves no handlers once the last one is removed', () => {
+            const handler = vi.fn();
+            channel.on('INSERT', handler).on('*', handler);
+
+            channel.off('INSERT', handler);
+            expect(channel.hasHandlers()).toBe(true);
+
+            channel.off('*', handler);
+            expect(channel.hasHandlers()).toBe(false);
+        });
     });
 
     describe('subscribe', () => {
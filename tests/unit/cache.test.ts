@@ -0,0 +1,237 @@
+/**
+ * Query cache Unit Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AeroDBClient } from '../../src/AeroDBClient';
+import { MemoryCacheAdapter, QueryCache } from '../../src/lib/cache';
+import type { StorageAdapter } from '../../src/lib/helpers';
+
+const ok = (data: unknown) => ({ data, error: null, count: null });
+
+describe('QueryCache', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('serves fresh responses without loading again', async () => {
+        const cache = new QueryCache({ ttl: 1000 });
+        const load = vi.fn().mockResolvedValue(ok([1]));
+
+        await cache.fetch('q', ['public.users'], load);
+        vi.advanceTimersByTime(999);
+        const second = await cache.fetch('q', ['public.users'], load);
+
+        expect(load).toHaveBeenCalledTimes(1);
+        expect(second).toEqual(ok([1]));
+    });
+
+    it('loads again once the ttl has passed', async () => {
+        const cache = new QueryCache({ ttl: 1000 });
+        const load = vi.fn().mockResolvedValueOnce(ok([1])).mockResolvedValueOnce(ok([2]));
+
+        await cache.fetch('q', [], load);
+        vi.advanceTimersByTime(1000);
+
+        expect(await cache.fetch('q', [], load)).toEqual(ok([2]));
+        expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('serves stale responses while revalidating in the background', async () => {
+        const cache = new QueryCache({ ttl: 1000, staleWhileRevalidate: 5000 });
+        const load = vi.fn().mockResolvedValueOnce(ok(['old'])).mockResolvedValueOnce(ok(['new']));
+
+        await cache.fetch('q', [], load);
+        vi.advanceTimersByTime(3000);
+
+        expect(await cache.fetch('q', [], load)).toEqual(ok(['old']));
+        expect(load).toHaveBeenCalledTimes(2);
+        await vi.waitFor(async () => expect(await cache.fetch('q', [], load)).toEqual(ok(['new'])));
+        expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('shares one load between identical queries in flight', async () => {
+        const cache = new QueryCache();
+        const load = vi.fn().mockResolvedValue(ok([1]));
+
+        const [a, b] = await Promise.all([cache.fetch('q', [], load), cache.fetch('q', [], load)]);
+
+        expect(load).toHaveBeenCalledTimes(1);
+        expect(a).toEqual(b);
+    });
+
+    it('returns copies that callers can modify', async () => {
+        const cache = new QueryCache();
+        const load = vi.fn().mockResolvedValue(ok([{ id: 1 }]));
+
+        const first = await cache.fetch('q', [], load);
+        (first.data as unknown[]).push({ id: 99 });
+        const second = await cache.fetch('q', [], load);
+        (second.data as { id: number }[])[0].id = 2;
+
+        expect(await cache.fetch('q', [], load)).toEqual(ok([{ id: 1 }]));
+        expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not store errors', async () => {
+        const cache = new QueryCache();
+        const load = vi.fn()
+            .mockResolvedValueOnce({ data: null, error: { message: 'timeout', status: 504 }, count: null })
+            .mockResolvedValueOnce(ok([1]));
+
+        await cache.fetch('q', [], load);
+
+        expect(await cache.fetch('q', [], load)).toEqual(ok([1]));
+    });
+
+    it('invalidates entries by tag', async () => {
+        const cache = new QueryCache();
+        const load = vi.fn().mockResolvedValue(ok([1]));
+
+        await cache.fetch('users', ['public.users'], load);
+        await cache.fetch('posts', ['public.posts', 'public.users'], load);
+        await cache.fetch('teams', ['public.teams'], load);
+        await cache.invalidate('public.users');
+        load.mockClear();
+
+        await cache.fetch('users', ['public.users'], load);
+        await cache.fetch('posts', ['public.posts', 'public.users'], load);
+        await cache.fetch('teams', ['public.teams'], load);
+        expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('invalidates schema-wide entries on a write to any table of the schema', async () => {
+        const cache = new QueryCache();
+        const load = vi.fn().mockResolvedValue(ok([1]));
+
+        await cache.fetch('posts', ['public.posts', 'public.*'], load);
+        await cache.fetch('events', ['audit.events', 'audit.*'], load);
+        await cache.invalidate('public.users');
+        load.mockClear();
+
+        await cache.fetch('posts', ['public.posts', 'public.*'], load);
+        await cache.fetch('events', ['audit.events', 'audit.*'], load);
+        expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not store a load that was invalidated while in flight', async () => {
+        const cache = new QueryCache();
+        let resolve!: (value: unknown) => void;
+        const load = vi.fn()
+            .mockReturnValueOnce(new Promise((r) => (resolve = r)))
+            .mockResolvedValueOnce(ok(['after']));
+
+        const first = cache.fetch('q', ['public.users'], load);
+        await vi.waitFor(() => expect(load).toHaveBeenCalled());
+        await cache.invalidate('public.users');
+        resolve(ok(['before']));
+
+        expect(await first).toEqual(ok(['before']));
+        expect(await cache.fetch('q', ['public.users'], load)).toEqual(ok(['after']));
+    });
+
+    it('clears entries when the identity changes', async () => {
+        let token: string | null = 'A';
+        const cache = new QueryCache({}, () => token);
+        const load = vi.fn().mockResolvedValueOnce(ok(['A'])).mockResolvedValueOnce(ok(['B']));
+
+        await cache.fetch('q', [], load);
+        token = 'B';
+
+        expect(await cache.fetch('q', [], load)).toEqual(ok(['B']));
+        expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('serves entries of a persistent adapter to a new cache with the same identity', async () => {
+        const adapter = new MemoryCacheAdapter();
+        const clear = vi.spyOn(adapter, 'clear');
+        const load = vi.fn().mockResolvedValue(ok(['A']));
+
+        await new QueryCache({ adapter }, () => 'A').fetch('q', [], load);
+        const result = await new QueryCache({ adapter }, () => 'A').fetch('q', [], load);
+
+        expect(result).toEqual(ok(['A']));
+        expect(load).toHaveBeenCalledTimes(1);
+        expect(clear).not.toHaveBeenCalled();
+    });
+
+    it('treats entries stored as another identity as misses', async () => {
+        const adapter = new MemoryCacheAdapter();
+        const load = vi.fn().mockResolvedValueOnce(ok(['A'])).mockResolvedValueOnce(ok(['B']));
+
+        await new QueryCache({ adapter }, () => 'A').fetch('q', [], load);
+        const result = await new QueryCache({ adapter }, () => 'B').fetch('q', [], load);
+
+        expect(result).toEqual(ok(['B']));
+        expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('stores a hash of the identity, not the identity', async () => {
+        const adapter = new MemoryCacheAdapter();
+        await new QueryCache({ adapter }, () => 'secret-token').fetch('q', [], async () => ok([1]));
+
+        const entry = await adapter.get('q');
+        expect(entry?.identity).toMatch(/^[0-9a-f]{64}$/);
+        expect(JSON.stringify(entry)).not.toContain('secret-token');
+    });
+
+    it('uses the given adapter', async () => {
+        const adapter = new MemoryCacheAdapter();
+        const set = vi.spyOn(adapter, 'set');
+        const cache = new QueryCache({ adapter });
+
+        await cache.fetch('q', ['public.users'], async () => ok([1]));
+
+        expect(set).toHaveBeenCalledWith('q', { response: ok([1]), storedAt: Date.now(), tags: ['public.users'], identity: null });
+    });
+});
+
+describe('MemoryCacheAdapter', () => {
+    it('evicts the least recently used entries', async () => {
+        const adapter = new MemoryCacheAdapter(2);
+        const entry = { response: ok(null), storedAt: 0, tags: [], identity: null };
+
+        await adapter.set('a', entry);
+        await adapter.set('b', entry);
+        await adapter.get('a');
+        await adapter.set('c', entry);
+
+        expect(await adapter.get('a')).toBe(entry);
+        expect(await adapter.get('b')).toBeUndefined();
+        expect(await adapter.get('c')).toBe(entry);
+    });
+});
+
+describe('AeroDBClient cache', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('does not serve one user\'s rows to the next', async () => {
+        const items = new Map<string, string>([['aerodb.auth.token', 'A']]);
+        const storage: StorageAdapter = {
+            getItem: (key) => items.get(key) ?? null,
+            setItem: (key, value) => void items.set(key, value),
+            removeItem: (key) => void items.delete(key),
+        };
+        const fetchMock = vi.fn(async (_url: string, init: RequestInit) =>
+            new Response(JSON.stringify([{ who: (init.headers as Record<string, string>)['Authorization'] }]), {
+                status: 200,
+                headers: { 'content-type': 'application/json' },
+            })
+        );
+        vi.stubGlobal('fetch', fetchMock);
+        const client = new AeroDBClient({ url: 'https://api.test.com', key: 'anon', storage, cache: true });
+
+        await client.from('notes').select('*');
+        items.set('aerodb.auth.token', 'B');
+        const { data } = await client.from('notes').select('*');
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(data).toEqual([{ who: 'Bearer B' }]);
+    });
+});
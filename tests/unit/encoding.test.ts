@@ -0,0 +1,202 @@
+/**
+ * PostgREST value encoding tests
+ *
+ * Property tests decode the encoder's output with small reference parsers
+ * for PostgREST lists / logic groups and Postgres array literals, and check
+ * that every value survives the round trip.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+    encodeArrayLiteral,
+    encodeFilterValue,
+    encodeList,
+    encodeScalar,
+    quoteValue,
+} from '../../src/database/encoding';
+
+type ArrayLiteral = (string | null | ArrayLiteral)[];
+
+/**
+ * Split the inside of a `(…)` list or logic group on top-level commas,
+ * unquoting quoted items
+ */
+function parseList(text: string): string[] {
+    expect(text.startsWith('(') && text.endsWith(')')).toBe(true);
+    const items: string[] = [];
+    let i = 1;
+    while (i < text.length - 1) {
+        let item = '';
+        if (text[i] === '"') {
+            i++;
+            while (text[i] !== '"') {
+                if (text[i] === '\\') {
+                    i++;
+                }
+                item += text[i++];
+            }
+            i++;
+        } else {
+            while (text[i] !== ',' && i < text.length - 1) {
+                expect('()"'.includes(text[i])).toBe(false);
+                item += text[i++];
+            }
+        }
+        items.push(item);
+        if (text[i] === ',') {
+            i++;
+        }
+    }
+    return items;
+}
+
+/**
+ * Parse a Postgres array literal produced by encodeArrayLiteral
+ */
+function parseArrayLiteral(text: string): ArrayLiteral {
+    let i = 0;
+    const parseArray = (): ArrayLiteral => {
+        expect(text[i]).toBe('{');
+        i++;
+        const items: ArrayLiteral = [];
+        while (text[i] !== '}') {
+            if (text[i] === '{') {
+                items.push(parseArray());
+            } else if (text[i] === '"') {
+                i++;
+                let item = '';
+                while (text[i] !== '"') {
+                    if (text[i] === '\\') {
+                        i++;
+                    }
+                    item += text[i++];
+                }
+                i++;
+                items.push(item);
+            } else {
+                let item = '';
+                while (text[i] !== ',' && text[i] !== '}') {
+                    item += text[i++];
+                }
+                items.push(item === 'NULL' ? null : item);
+            }
+            if (text[i] === ',') {
+                i++;
+            }
+        }
+        i++;
+        return items;
+    };
+    const result = parseArray();
+    expect(i).toBe(text.length);
+    return result;
+}
+
+const nestedArray: fc.Arbitrary<ArrayLiteral> = fc.letrec((tie) => ({
+    array: fc.array(
+        fc.oneof(
+            { depthSize: 'small', withCrossShrink: true },
+            fc.string(),
+            fc.constant(null),
+            tie('array') as fc.Arbitrary<ArrayLiteral>
+        ),
+        { maxLength: 5 }
+    ),
+})).array;
+
+describe('encoding', () => {
+    describe('lists and logic groups', () => {
+        it('quotes values containing reserved characters', () => {
+            expect(encodeList(['Smith, Jr.', 'O"Brien', 'plain'])).toBe('("Smith, Jr.","O\\"Brien",plain)');
+            expect(quoteValue('(draft)')).toBe('"(draft)"');
+            expect(quoteValue('a\\b')).toBe('"a\\\\b"');
+            expect(quoteValue('')).toBe('""');
+            expect(quoteValue('Jr.')).toBe('Jr.');
+        });
+
+        it('round-trips any list of strings', () => {
+            fc.assert(
+                fc.property(fc.array(fc.string(), { minLength: 1 }), (values) => {
+                    expect(parseList(encodeList(values))).toEqual(values);
+                })
+            );
+        });
+
+        it('keeps quoted group values apart from their neighbours', () => {
+            fc.assert(
+                fc.property(fc.string(), fc.string(), (a, b) => {
+                    const group = `(${quoteValue(a)},${quoteValue(b)})`;
+                    expect(parseList(group)).toEqual([a, b]);
+                })
+            );
+        });
+
+        it('only quotes nested filter values', () => {
+            expect(encodeFilterValue('eq', 'Smith, Jr.')).toBe('Smith, Jr.');
+            expect(encodeFilterValue('eq', 'Smith, Jr.', true)).toBe('"Smith, Jr."');
+            expect(encodeFilterValue('is', null, true)).toBe('null');
+        });
+    });
+
+    describe('array literals', () => {
+        it('quotes elements and writes NULL', () => {
+            expect(encodeArrayLiteral(['a', 'b c', 'x,y', '', 'null', null])).toBe('{a,"b c","x,y","","null",NULL}');
+        });
+
+        it('round-trips nested arrays', () => {
+            fc.assert(
+                fc.property(nestedArray, (values) => {
+                    expect(parseArrayLiteral(encodeArrayLiteral(values))).toEqual(values);
+                })
+            );
+        });
+
+        it('is quoted again inside logic groups', () => {
+            fc.assert(
+                fc.property(nestedArray, (values) => {
+                    const literal = encodeArrayLiteral(values);
+                    const [value] = parseList(`(${encodeFilterValue('cs', values, true)})`);
+                    expect(value).toBe(literal);
+                })
+            );
+        });
+    });
+
+    describe('scalars', () => {
+        it('writes dates as UTC ISO 8601', () => {
+            fc.assert(
+                fc.property(fc.date({ noInvalidDate: true }), (date) => {
+                    const text = encodeScalar(date);
+                    expect(text).toBe(date.toISOString());
+                    expect(new Date(text).getTime()).toBe(date.getTime());
+                })
+            );
+        });
+
+        it('keeps every digit of bigints', () => {
+            fc.assert(
+                fc.property(fc.bigInt(), (value) => {
+                    expect(BigInt(encodeScalar(value))).toBe(value);
+                })
+            );
+            expect(encodeScalar({ id: 9007199254740993n })).toBe('{"id":9007199254740993}');
+        });
+
+        it('writes JSON objects like JSON.stringify', () => {
+            fc.assert(
+                fc.property(fc.dictionary(fc.string(), fc.jsonValue()), (value) => {
+                    expect(JSON.parse(encodeScalar(value))).toEqual(JSON.parse(JSON.stringify(value)));
+                })
+            );
+        });
+
+        it('is deterministic', () => {
+            fc.assert(
+                fc.property(fc.anything({ withDate: true, withBigInt: true }), (value) => {
+                    expect(encodeScalar(value)).toBe(encodeScalar(value));
+                })
+            );
+        });
+    });
+});
@@ -0,0 +1,172 @@
+/**
+ * aeroFetch Unit Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createFetch } from '../../src/lib/fetch';
+import type { StorageAdapter } from '../../src/lib/helpers';
+
+const createStorage = (): StorageAdapter => ({
+    getItem: vi.fn().mockReturnValue(null),
+    setItem: vi.fn(),
+    removeItem: vi.fn(),
+});
+
+describe('aeroFetch', () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    describe('count', () => {
+        it('parses the total from Content-Range', async () => {
+            fetchMock.mockResolvedValueOnce(
+                new Response(JSON.stringify([{ id: 1 }]), {
+                    status: 200,
+                    headers: { 'content-type': 'application/json', 'content-range': '0-24/3573' },
+                })
+            );
+
+            const aeroFetch = createFetch('https://api.test.com', 'key', createStorage());
+            const result = await aeroFetch('/rest/v1/users');
+
+            expect(result.count).toBe(3573);
+            expect(result.data).toEqual([{ id: 1 }]);
+        });
+
+        it('parses an empty range', async () => {
+            fetchMock.mockResolvedValueOnce(
+                new Response('[]', {
+                    status: 200,
+                    headers: { 'content-type': 'application/json', 'content-range': '*/0' },
+                })
+            );
+
+            const aeroFetch = createFetch('https://api.test.com', 'key', createStorage());
+            const result = await aeroFetch('/rest/v1/users');
+
+            expect(result.count).toBe(0);
+        });
+
+        it('returns null when the total is unknown', async () => {
+            fetchMock.mockResolvedValueOnce(
+                new Response('[]', {
+                    status: 200,
+                    headers: { 'content-type': 'application/json', 'content-range': '0-24/*' },
+                })
+            );
+
+            const aeroFetch = createFetch('https://api.test.com', 'key', createStorage());
+            const result = await aeroFetch('/rest/v1/users');
+
+            expect(result.count).toBeNull();
+        });
+
+        it('returns the count for HEAD requests without reading a body', async () => {
+            fetchMock.mockResolvedValueOnce(
+                new Response(null, {
+                    status: 200,
+                    headers: { 'content-type': 'application/json', 'content-range': '*/42' },
+                })
+            );
+
+            const aeroFetch = createFetch('https://api.test.com', 'key', createStorage());
+            const result = await aeroFetch('/rest/v1/users', { method: 'HEAD' });
+
+            expect(result).toEqual({ data: null, error: null, status: 200, count: 42, etag: null });
+        });
+    });
+
+    describe('non-JSON responses', () => {
+        it('returns successful bodies as text', async () => {
+            fetchMock.mockResolvedValueOnce(
+                new Response('id,name\n1,Ada\n', { status: 200, headers: { 'content-type': 'text/csv' } })
+            );
+
+            const aeroFetch = createFetch('https://api.test.com', 'key', createStorage());
+            const result = await aeroFetch<string>('/rest/v1/users', { headers: { Accept: 'text/csv' } });
+
+            expect(result.data).toBe('id,name\n1,Ada\n');
+            expect(result.error).toBeNull();
+        });
+
+        it('keeps data null for empty bodies', async () => {
+            fetchMock.mockResolvedValueOnce(new Response('', { status: 201 }));
+
+            const aeroFetch = createFetch('https://api.test.com', 'key', createStorage());
+            const result = await aeroFetch('/rest/v1/users', { method: 'POST' });
+
+            expect(result.data).toBeNull();
+        });
+    });
+
+    describe('responseType', () => {
+        it('returns the unread body for stream responses', async () => {
+            fetchMock.mockResolvedValueOnce(
+                new Response('[{"id":1}]', { status: 200, headers: { 'content-type': 'application/json' } })
+            );
+
+            const aeroFetch = createFetch('https://api.test.com', 'key', createStorage());
+            const result = await aeroFetch<ReadableStream<Uint8Array>>('/rest/v1/users', { responseType: 'stream' });
+
+            expect(result.data).toBeInstanceOf(ReadableStream);
+            expect(await new Response(result.data).json()).toEqual([{ id: 1 }]);
+            expect(fetchMock.mock.calls[0][1]).not.toHaveProperty('responseType');
+        });
+
+        it('still parses errors for stream responses', async () => {
+            fetchMock.mockResolvedValueOnce(
+                new Response(JSON.stringify({ message: 'denied' }), {
+                    status: 401,
+                    headers: { 'content-type': 'application/json' },
+                })
+            );
+
+            const aeroFetch = createFetch('https://api.test.com', 'key', createStorage());
+            const result = await aeroFetch('/rest/v1/users', { responseType: 'stream' });
+
+            expect(result.data).toBeNull();
+            expect(result.error).toMatchObject({ message: 'denied', status: 401 });
+        });
+    });
+
+    describe('etag', () => {
+        it('returns the ETag header of successful and failed responses', async () => {
+            fetchMock
+                .mockResolvedValueOnce(
+                    new Response('[]', { status: 200, headers: { 'content-type': 'application/json', etag: 'W/"7"' } })
+                )
+                .mockResolvedValueOnce(new Response('', { status: 412, headers: { etag: 'W/"8"' } }));
+
+            const aeroFetch = createFetch('https://api.test.com', 'key', createStorage());
+
+            expect((await aeroFetch('/rest/v1/users')).etag).toBe('W/"7"');
+            expect(await aeroFetch('/rest/v1/users', { method: 'PATCH' })).toMatchObject({
+                error: { status: 412 },
+                etag: 'W/"8"',
+            });
+        });
+    });
+
+    describe('content types', () => {
+        it('parses vendor JSON media types', async () => {
+            fetchMock.mockResolvedValueOnce(
+                new Response(JSON.stringify({ id: 1 }), {
+                    status: 200,
+                    headers: { 'content-type': 'application/vnd.pgrst.object+json; charset=utf-8' },
+                })
+            );
+
+            const aeroFetch = createFetch('https://api.test.com', 'key', createStorage());
+            const result = await aeroFetch('/rest/v1/users');
+
+            expect(result.data).toEqual({ id: 1 });
+        });
+    });
+});
@@ -0,0 +1,196 @@
+/**
+ * generateTypes Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateTypes } from '../../src/typegen/generateTypes';
+import { parseArgs } from '../../src/typegen/cli';
+import type { OpenApiDocument } from '../../src/typegen/types';
+
+const document: OpenApiDocument = {
+    definitions: {
+        users: {
+            required: ['id', 'name', 'role'],
+            properties: {
+                id: { format: 'uuid', type: 'string', default: 'gen_random_uuid()', description: 'Note:\nThis is a Primary Key.<pk/>' },
+                name: { format: 'text', type: 'string' },
+                age: { format: 'integer', type: 'integer' },
+                role: { enum: ['admin', 'member'], format: 'public.user_role', type: 'string', default: 'member' },
+                tags: { format: 'text[]', type: 'array', items: { type: 'string' } },
+                metadata: { format: 'jsonb' },
+                'display name': { format: 'text', type: 'string' },
+            },
+        },
+        posts: {
+            required: ['id', 'author_id'],
+            properties: {
+                id: { format: 'bigint', type: 'integer' },
+                author_id: {
+                    format: 'uuid',
+                    type: 'string',
+                    description: "Note:\nThis is a Foreign Key to `users.id`.<fk table='users' column='id'/>",
+                },
+            },
+        },
+        active_users: {
+            properties: {
+                id: { format: 'uuid', type: 'string' },
+            },
+        },
+    },
+    paths: {
+        '/': {},
+        '/users': { get: {}, post: {}, patch: {}, delete: {} },
+        '/posts': { get: {}, post: {}, patch: {}, delete: {} },
+        '/active_users': { get: {} },
+        '/rpc/add_numbers': {
+            post: {
+                parameters: [
+                    {
+                        in: 'body',
+                        name: 'args',
+                        required: true,
+                        schema: {
+                            required: ['a'],
+                            properties: {
+                                a: { format: 'integer', type: 'integer' },
+                                b: { format: 'integer', type: 'integer' },
+                            },
+                        },
+                    },
+                ],
+            },
+        },
+    },
+};
+
+const section = (source: string, start: string, end: string) =>
+    source.slice(source.indexOf(start), source.indexOf(end, source.indexOf(start)));
+
+describe('generateTypes', () => {
+    it('emits the Json helper and Database type', () => {
+        const source = generateTypes({ public: document });
+
+        expect(source).toContain('export type Json =');
+        expect(source).toContain('export type Database = {');
+        expect(source).toContain('    public: {');
+    });
+
+    it('maps column types and nullability in Row', () => {
+        const row = section(generateTypes({ public: document }), 'users: {', 'Insert:');
+
+        expect(row).toContain('id: string;');
+        expect(row).toContain('name: string;');
+        expect(row).toContain('age: number | null;');
+        expect(row).toContain('tags: string[] | null;');
+        expect(row).toContain('metadata: Json | null;');
+        expect(row).toContain('"display name": string | null;');
+    });
+
+    it('makes nullable and defaulted columns optional in Insert', () => {
+        const source = generateTypes({ public: document });
+        const insert = section(source.slice(source.indexOf('users: {')), 'Insert: {', 'Update:');
+
+        expect(insert).toContain('age?: number | null;');
+        expect(insert).toContain('id?: string;');
+        expect(insert).toContain('name: string;');
+    });
+
+    it('makes every column optional in Update', () => {
+        const source = generateTypes({ public: document });
+        const update = section(source.slice(source.indexOf('users: {')), 'Update: {', 'Relationships');
+
+        expect(update).toContain('name?: string;');
+        expect(update).toContain('id?: string;');
+    });
+
+    it('emits enums and references them from columns', () => {
+        const source = generateTypes({ public: document });
+
+        expect(source).toContain('role: Database["public"]["Enums"]["user_role"];');
+        expect(source).toContain('user_role: "admin" | "member";');
+    });
+
+    it('emits foreign key relationships', () => {
+        const source = generateTypes({ public: document });
+
+        expect(source).toContain('foreignKeyName: "posts_author_id_fkey";');
+        expect(source).toContain('columns: ["author_id"];');
+        expect(source).toContain('referencedRelation: "users";');
+        expect(source).toContain('referencedColumns: ["id"];');
+    });
+
+    it('treats relations without write operations as views', () => {
+        const views = section(generateTypes({ public: document }), 'Views: {', 'Functions:');
+
+        expect(views).toContain('active_users: {');
+        expect(views).not.toContain('Insert');
+    });
+
+    it('emits function arguments', () => {
+        const functions = section(generateTypes({ public: document }), 'Functions: {', 'Enums:');
+
+        expect(functions).toContain('add_numbers: {');
+        expect(functions).toContain('a: number;');
+        expect(functions).toContain('b?: number | null;');
+        expect(functions).toContain('Returns: unknown;');
+    });
+
+    it('emits empty sections', () => {
+        const source = generateTypes({ audit: {} });
+
+        expect(source).toContain('Tables: { [_ in never]: never };');
+        expect(source).toContain('Functions: { [_ in never]: never };');
+    });
+
+    it('is deterministic regardless of key order', () => {
+        const reversed: OpenApiDocument = {
+            definitions: Object.fromEntries(Object.entries(document.definitions!).reverse()),
+            paths: Object.fromEntries(Object.entries(document.paths!).reverse()),
+        };
+
+        expect(generateTypes({ public: reversed })).toBe(generateTypes({ public: document }));
+    });
+
+    it('sorts schemas by name', () => {
+        const source = generateTypes({ public: {}, audit: {} });
+
+        expect(source.indexOf('audit: {')).toBeLessThan(source.indexOf('public: {'));
+    });
+});
+
+describe('parseArgs', () => {
+    it('parses url, key, schemas and output', () => {
+        const args = parseArgs([
+            '--url', 'https://api.test.com/',
+            '--key', 'secret',
+            '--schema', 'public',
+            '--schema', 'audit',
+            '--output', 'src/database.types.ts',
+        ]);
+
+        expect(args).toEqual({
+            url: 'https://api.test.com',
+            key: 'secret',
+            schemas: ['public', 'audit'],
+            output: 'src/database.types.ts',
+            help: false,
+        });
+    });
+
+    it('accepts -o and -h', () => {
+        expect(parseArgs(['--file', 'openapi.json', '-o', 'out.ts']).output).toBe('out.ts');
+        expect(parseArgs(['-h']).help).toBe(true);
+    });
+
+    it('defaults to the public schema', () => {
+        expect(parseArgs(['--file', 'openapi.json']).schemas).toEqual(['public']);
+    });
+
+    it('rejects unknown options and missing values', () => {
+        expect(() => parseArgs(['--nope', 'x'])).toThrow('Unknown option --nope');
+        expect(() => parseArgs(['--bogus'])).toThrow('Unknown option --bogus');
+        expect(() => parseArgs(['--file', 'openapi.json', '--bogus', '--url'])).toThrow('Unknown option --bogus');
+        expect(() => parseArgs(['--url'])).toThrow('Missing value for --url');
+    });
+});
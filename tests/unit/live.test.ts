@@ -0,0 +1,178 @@
+/**
+ * Live query evaluation Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    applyChange,
+    canEvaluateFilters,
+    compareRows,
+    matchesFilters,
+    parseSelectedColumns,
+} from '../../src/database/live';
+import type { LiveView } from '../../src/database/live';
+import type { FilterNode } from '../../src/database/types';
+import type { RealtimePayload } from '../../src/realtime/types';
+
+const change = (
+    type: RealtimePayload['type'],
+    row: Record<string, unknown> | null,
+    old: Record<string, unknown> | null = null
+): RealtimePayload => ({
+    type,
+    table: 'tasks',
+    schema: 'public',
+    commit_timestamp: '2026-01-01T00:00:00Z',
+    new: row,
+    old,
+});
+
+describe('live query evaluation', () => {
+    describe('matchesFilters', () => {
+        const row = { id: 1, priority: 3, title: 'Write docs', owner: null, done: false, meta: { tier: 'pro' } };
+        const matches = (...filters: FilterNode[]) => matchesFilters(row, filters);
+
+        it('compares numbers, numeric strings and text', () => {
+            expect(matches({ field: 'priority', operator: 'gte', value: 3 })).toBe(true);
+            expect(matches({ field: 'priority', operator: 'gt', value: '10' })).toBe(false);
+            expect(matches({ field: 'title', operator: 'lt', value: 'Xylophone' })).toBe(true);
+            expect(matches({ field: 'id', operator: 'eq', value: '1' })).toBe(true);
+            expect(matches({ field: 'done', operator: 'eq', value: false })).toBe(true);
+        });
+
+        it('matches like / ilike patterns', () => {
+            expect(matches({ field: 'title', operator: 'like', value: 'Write%' })).toBe(true);
+            expect(matches({ field: 'title', operator: 'like', value: 'write*' })).toBe(false);
+            expect(matches({ field: 'title', operator: 'ilike', value: 'write_docs' })).toBe(true);
+            expect(matches({ field: 'title', operator: 'like', value: 'Write (docs)' })).toBe(false);
+        });
+
+        it('treats NULL like SQL does', () => {
+            expect(matches({ field: 'owner', operator: 'eq', value: 'ada' })).toBe(false);
+            expect(matches({ field: 'owner', operator: 'neq', value: 'ada' })).toBe(false);
+            expect(matches({ field: 'owner', operator: 'eq', value: 'ada', negate: true })).toBe(false);
+            expect(matches({ field: 'owner', operator: 'is', value: null })).toBe(true);
+            expect(matches({ field: 'done', operator: 'is', value: false })).toBe(true);
+            expect(matches({ field: 'priority', operator: 'in', value: [1, null] })).toBe(false);
+            expect(matches({ field: 'priority', operator: 'in', value: [1, 3] })).toBe(true);
+        });
+
+        it('evaluates logic groups with three-valued logic', () => {
+            const ownerIsAda = { field: 'owner', operator: 'eq', value: 'ada' } as const;
+            const urgent = { field: 'priority', operator: 'gt', value: 2 } as const;
+
+            expect(matches({ logic: 'or', filters: [ownerIsAda, urgent] })).toBe(true);
+            expect(matches({ logic: 'and', filters: [ownerIsAda, urgent] })).toBe(false);
+            // NOT (NULL OR false) is still NULL
+            expect(matches({ logic: 'or', filters: [ownerIsAda, { ...urgent, negate: true }], negate: true })).toBe(false);
+            expect(matches({ logic: 'and', filters: [{ ...ownerIsAda, negate: true }], negate: true })).toBe(false);
+        });
+
+        it('reads JSON paths', () => {
+            expect(matches({ field: 'meta->>tier', operator: 'eq', value: 'pro' })).toBe(true);
+            expect(matches({ field: 'meta->plan->>tier', operator: 'is', value: null })).toBe(true);
+        });
+    });
+
+    describe('canEvaluateFilters', () => {
+        it('rejects operators, groups and embedded filters it cannot evaluate locally', () => {
+            expect(canEvaluateFilters([{ field: 'id', operator: 'eq', value: 1 }])).toBe(true);
+            expect(canEvaluateFilters([{ field: 'tags', operator: 'cs', value: ['a'] }])).toBe(false);
+            expect(canEvaluateFilters([{ logic: 'or', filters: 'id.eq.1,id.eq.2' }])).toBe(false);
+            expect(canEvaluateFilters([{ field: 'posts.published', operator: 'eq', value: true }])).toBe(false);
+            expect(canEvaluateFilters([{ field: 'published', operator: 'eq', value: true, referencedTable: 'posts' }])).toBe(false);
+        });
+    });
+
+    describe('compareRows', () => {
+        it('sorts by several columns with Postgres null placement', () => {
+            const rows = [
+                { id: 1, priority: null, title: 'b' },
+                { id: 2, priority: 2, title: 'b' },
+                { id: 3, priority: 2, title: 'a' },
+                { id: 4, priority: 10, title: 'c' },
+            ];
+
+            const ascending = [...rows].sort(compareRows([
+                { field: 'priority', ascending: true },
+                { field: 'title', ascending: true },
+            ]));
+            const descending = [...rows].sort(compareRows([{ field: 'priority', ascending: false }]));
+            const nullsFirst = [...rows].sort(compareRows([{ field: 'priority', ascending: true, nullsFirst: true }]));
+
+            expect(ascending.map((row) => row.id)).toEqual([3, 2, 4, 1]);
+            expect(descending.map((row) => row.id)).toEqual([1, 4, 2, 3]);
+            expect(nullsFirst.map((row) => row.id)).toEqual([1, 2, 3, 4]);
+        });
+    });
+
+    describe('parseSelectedColumns', () => {
+        it('parses plain and aliased columns', () => {
+            expect(parseSelectedColumns('*')).toBe('*');
+            expect(parseSelectedColumns('id, label:title')).toEqual([
+                { column: 'id', alias: 'id' },
+                { column: 'title', alias: 'label' },
+            ]);
+        });
+
+        it('gives up on embedded resources, casts and JSON paths', () => {
+            expect(parseSelectedColumns('id, posts(title)')).toBeNull();
+            expect(parseSelectedColumns('id::text')).toBeNull();
+            expect(parseSelectedColumns('meta->>tier')).toBeNull();
+        });
+    });
+
+    describe('applyChange', () => {
+        const view: LiveView = {
+            filters: [{ field: 'done', operator: 'eq', value: false }],
+            order: [{ field: 'priority', ascending: true }],
+            columns: [{ column: 'id', alias: 'id' }, { column: 'priority', alias: 'priority' }],
+            primaryKey: ['id'],
+        };
+        const rows = [{ id: 1, priority: 1 }, { id: 2, priority: 5 }];
+
+        it('inserts matching rows in order, projected to the selected columns', () => {
+            const next = applyChange(rows, change('INSERT', { id: 3, priority: 3, done: false, title: 'x' }), view);
+            expect(next).toEqual([{ id: 1, priority: 1 }, { id: 3, priority: 3 }, { id: 2, priority: 5 }]);
+        });
+
+        it('ignores rows that do not match', () => {
+            expect(applyChange(rows, change('INSERT', { id: 3, priority: 3, done: true }), view)).toEqual(rows);
+        });
+
+        it('moves, removes and deletes rows by primary key', () => {
+            const moved = applyChange(rows, change('UPDATE', { id: 1, priority: 9, done: false }, { id: 1 }), view);
+            const finished = applyChange(rows, change('UPDATE', { id: 1, priority: 1, done: true }, { id: 1 }), view);
+            const deleted = applyChange(rows, change('DELETE', null, { id: 2 }), view);
+
+            expect(moved).toEqual([{ id: 2, priority: 5 }, { id: 1, priority: 9 }]);
+            expect(finished).toEqual([{ id: 2, priority: 5 }]);
+            expect(deleted).toEqual([{ id: 1, priority: 1 }]);
+        });
+
+        it('is idempotent for changes already in the result', () => {
+            const again = applyChange(rows, change('INSERT', { id: 2, priority: 5, done: false }), view);
+            expect(again).toEqual(rows);
+        });
+
+        it('keeps within the limit', () => {
+            const limited = { ...view, limit: 2 };
+
+            const inserted = applyChange(rows, change('INSERT', { id: 3, priority: 0, done: false }), limited);
+            const beyond = applyChange(rows, change('INSERT', { id: 3, priority: 7, done: false }), limited);
+
+            expect(inserted).toEqual([{ id: 3, priority: 0 }, { id: 1, priority: 1 }]);
+            expect(beyond).toEqual(rows);
+        });
+
+        it('cannot tell what replaces a row leaving a full result', () => {
+            const limited = { ...view, limit: 2 };
+
+            expect(applyChange(rows, change('DELETE', null, { id: 1 }), limited)).toBeNull();
+            expect(applyChange(rows, change('UPDATE', { id: 1, priority: 8, done: false }, { id: 1 }), limited)).toBeNull();
+            expect(applyChange(rows, change('DELETE', null, { id: 1 }), { ...view, limit: 3 })).toEqual([
+                { id: 2, priority: 5 },
+            ]);
+        });
+    });
+});
@@ -0,0 +1,141 @@
+/**
+ * Stream decoding Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { decodeText, parseJsonArray } from '../../src/lib/stream';
+
+/**
+ * Byte stream delivering `chunks` one pull at a time
+ */
+function streamOf(chunks: (string | Uint8Array)[], onCancel = vi.fn()) {
+    const encoder = new TextEncoder();
+    let index = 0;
+    const pulls = vi.fn();
+    const body = new ReadableStream<Uint8Array>(
+        {
+            pull(controller) {
+                pulls();
+                if (index < chunks.length) {
+                    const chunk = chunks[index++];
+                    controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+                } else {
+                    controller.close();
+                }
+            },
+            cancel: onCancel,
+        },
+        { highWaterMark: 0 }
+    );
+    return { body, pulls, onCancel };
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterable) {
+        items.push(item);
+    }
+    return items;
+}
+
+describe('parseJsonArray', () => {
+    it('parses elements split across chunks', async () => {
+        const { body } = streamOf(['[{"id":1,"na', 'me":"a"},{"id"', ':2,"name":"b"}', ',3,null,"x"]']);
+
+        expect(await collect(parseJsonArray(body))).toEqual([
+            { id: 1, name: 'a' },
+            { id: 2, name: 'b' },
+            3,
+            null,
+            'x',
+        ]);
+    });
+
+    it('ignores delimiters inside strings and nested values', async () => {
+        const rows = [
+            { text: 'a, b] {c}', escaped: 'quote \\" and \\\\' },
+            { tags: ['x', ['y', 'z']], meta: { a: [1, 2] } },
+        ];
+        const json = JSON.stringify(rows);
+        const { body } = streamOf(json.match(/.{1,3}/gs)!);
+
+        expect(await collect(parseJsonArray(body))).toEqual(rows);
+    });
+
+    it('decodes multi-byte characters split across chunks', async () => {
+        const bytes = new TextEncoder().encode(JSON.stringify([{ name: 'Zoë 🚀' }]));
+        const { body } = streamOf([bytes.slice(0, 12), bytes.slice(12)]);
+
+        expect(await collect(parseJsonArray(body))).toEqual([{ name: 'Zoë 🚀' }]);
+    });
+
+    it('handles empty arrays and whitespace', async () => {
+        expect(await collect(parseJsonArray(streamOf([' \n[', ' ]\n']).body))).toEqual([]);
+        expect(await collect(parseJsonArray(streamOf(['[ 1 , 2 ]']).body))).toEqual([1, 2]);
+    });
+
+    it('reads chunks only as rows are consumed', async () => {
+        const { body, pulls } = streamOf(['[1,', '2,', '3]']);
+        const rows = parseJsonArray(body);
+
+        await rows.next();
+        const pullsAfterFirst = pulls.mock.calls.length;
+        await rows.next();
+        expect(pulls.mock.calls.length).toBeGreaterThan(pullsAfterFirst);
+        expect(pullsAfterFirst).toBeLessThan(3);
+    });
+
+    it('cancels the stream when the loop ends early', async () => {
+        const { body, onCancel } = streamOf(['[1,', '2,', '3]']);
+
+        for await (const row of parseJsonArray(body)) {
+            if (row === 1) {
+                break;
+            }
+        }
+
+        expect(onCancel).toHaveBeenCalled();
+    });
+
+    it('stops and cancels when the signal is aborted', async () => {
+        const controller = new AbortController();
+        const { body, onCancel } = streamOf(['[1,', '2,', '3]']);
+        const rows: unknown[] = [];
+
+        for await (const row of parseJsonArray(body, controller.signal)) {
+            rows.push(row);
+            controller.abort();
+        }
+
+        expect(rows).toEqual([1]);
+        expect(onCancel).toHaveBeenCalled();
+    });
+
+    it('throws on bodies that are not arrays or end early', async () => {
+        await expect(collect(parseJsonArray(streamOf(['{"id":1}']).body))).rejects.toThrow('Expected a JSON array');
+        await expect(collect(parseJsonArray(streamOf(['[1,2']).body))).rejects.toThrow('Unexpected end');
+    });
+});
+
+describe('decodeText', () => {
+    it('yields text chunks, decoding characters split across chunks', async () => {
+        const bytes = new TextEncoder().encode('name\nZoë\n');
+        const { body } = streamOf([bytes.slice(0, 8), bytes.slice(8)]);
+
+        expect((await collect(decodeText(body))).join('')).toBe('name\nZoë\n');
+    });
+
+    it('cancels the stream when the signal is aborted', async () => {
+        const controller = new AbortController();
+        const { body, onCancel } = streamOf(['a', 'b', 'c']);
+        const chunks: string[] = [];
+
+        for await (const chunk of decodeText(body, controller.signal)) {
+            chunks.push(chunk);
+            controller.abort();
+        }
+
+        expect(chunks).toEqual(['a']);
+        expect(onCancel).toHaveBeenCalled();
+    });
+});
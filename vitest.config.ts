@@ -6,6 +6,11 @@ export default defineConfig({
         globals: true,
         environment: 'node',
         include: ['tests/**/*.test.ts'],
+        typecheck: {
+            enabled: true,
+            include: ['**/*.test-d.ts'],
+            tsconfig: './tests/tsconfig.json',
+        },
         coverage: {
             provider: 'v8',
             reporter: ['text', 'json', 'html'],